@@ -1,50 +1,63 @@
 // App.tsx
 "use client";
 
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
   ConnectModal,
   useCurrentAccount,
   useSignAndExecuteTransaction,
+  useSignPersonalMessage,
+  useSignTransaction,
   useSuiClient,
-  useSuiClientQuery,
+  useSuiClientContext,
 } from "@mysten/dapp-kit";
+import { SuiEvent } from "@mysten/sui/client";
 import { Transaction } from "@mysten/sui/transactions";
 
 import AudioPlayer, { AudioPlayerHandle } from "@/components/AudioPlayer";
+import RequestConfirm from "@/components/RequestConfirm";
+import { useJukebox } from "@/hooks/useJukebox";
+import { useLibrary } from "@/hooks/useLibrary";
+import { usePasses } from "@/hooks/usePasses";
+import { useRoomId } from "@/hooks/useRoomId";
+import { useTrackCatalog } from "@/hooks/useTrackCatalog";
+import { useRequestPreview } from "@/hooks/useRequestPreview";
+import { useSponsor } from "@/hooks/useSponsor";
+import { formatSui } from "@/lib/format";
+import {
+  changeTrackTx,
+  changeTrackWithPassTx,
+  claimRefundTx,
+  decodeJukeboxEvent,
+  explainTxError,
+  passUsableAt,
+  tipTx,
+  voteSkipTx,
+} from "@/lib/jukebox";
+import { resolveSchedule } from "@/lib/queue";
+import { requestSponsorship } from "@/lib/sponsor/client";
+import { Track } from "@/lib/tracks";
 import { useNetworkVariable } from "./networkConfig";
 
-// Local playlist used by the AudioPlayer (titles must match on-chain values)
-const PLAYLIST = [
-  { title: 'Horizon', file: 'horizon' },
-  { title: 'skelet',  file: 'inside_out' },
-  { title: 'wax',  file: 'wax' },
-  { title: 'atmosphere',  file: 'atmosphere' }
-];
-
-// ---- Types & helpers to read your Move object ----
-type JukeboxFields = {
-  current_track: string;
-};
-function getJukeboxFields(data?: any): JukeboxFields | null {
-  if (!data || data.content?.dataType !== "moveObject") return null;
-  return data.content.fields as unknown as JukeboxFields;
-}
-
 // ==== Important runtime constants ====
-// If your Move function enforces an exact fee, match it here.
-const JUKEBOX_FEE_MIST = 1_000_000_000n; // exactly 1 SUI
-// Give the tx an explicit gas budget so dry-run can simulate.
-const GAS_BUDGET_MIST = 100_000_000n; // 0.1 SUI (tweak if needed)
+// The request fee is read from the Jukebox object (`fee`), never hardcoded.
+// The gas budget comes from the dry run shown in the confirmation sheet.
 
 export default function App() {
-  // IDs pulled from your network config
+  // Package from the network config, jukebox object from the room
   const jukeboxPackageId = useNetworkVariable("jukeboxPackageId"); // e.g. 0x4ece...
-  const jukeboxObjectId = useNetworkVariable("jukeboxObjectId");   // e.g. 0x2fee...
+  const jukeboxObjectId = useRoomId();                              // the room, see /room/[id]
 
   const suiClient = useSuiClient();
+  const { network } = useSuiClientContext();
   const currentAccount = useCurrentAccount();
   const { mutate: signAndExecute } = useSignAndExecuteTransaction();
+  const { mutateAsync: signTransaction } = useSignTransaction();
+  const { mutateAsync: signPersonalMessage } = useSignPersonalMessage();
+  // Catalog read once, then refreshed when a TrackRegistered event comes in
+  const { tracks, isPending, error, refetch: refetchCatalog } = useTrackCatalog();
+  const { jukebox, refetch: refetchJukebox } = useJukebox();
+  const feeMist: string | null = jukebox?.feeMist ?? null; // u64 as a string
 
   const playerRef = useRef<AudioPlayerHandle>(null);
   const [waiting, setWaiting] = useState(false);
@@ -52,36 +65,65 @@ export default function App() {
 
   // 🔓 Connect modal control + "retry after connect" memory
   const [showConnect, setShowConnect] = useState(false);
-  const [pendingQuery, setPendingQuery] = useState<string | null>(null);
-
-  // Guard against missing object ID in the query
-  const canQueryObject = Boolean(jukeboxObjectId);
-
-  // Query the on-chain jukebox object; refetch after tx success
-  const { data, isPending, error, refetch } = useSuiClientQuery(
-    "getObject",
-    {
-      id: jukeboxObjectId || "",
-      options: { showContent: true },
-    },
-    // @ts-expect-error: the hook accepts a 3rd "options" param in runtime; this silences TS
-    { enabled: canQueryObject }
+  const [pendingQuery, setPendingQuery] = useState<number | null>(null);
+
+  // Track waiting for the listener to confirm the payment split
+  const [confirmTrack, setConfirmTrack] = useState<Track | null>(null);
+  // Gasless requests, when the server runs a sponsor and today's quota is not used up
+  const sponsor = useSponsor();
+  const sponsorRemaining = sponsor.data?.enabled ? sponsor.data.remaining : undefined;
+  const [sponsored, setSponsored] = useState(false);
+  const gasless = sponsored && sponsorRemaining !== undefined && sponsorRemaining !== 0;
+  // Prepaid requests: the first pass the chain would accept right now
+  const { passes, refetch: refetchPasses } = usePasses();
+  const pass = useMemo(() => {
+    const now = Date.now();
+    return passes.find((p) => passUsableAt(p, now) === now) ?? null;
+  }, [passes]);
+  const [usePass, setUsePass] = useState(true);
+  const passId = usePass && pass ? pass.id : null;
+  const preview = useRequestPreview(confirmTrack, gasless && !passId, passId);
+
+  // Starred tracks of this room that are in the catalog, for "Request from my favorites"
+  const { isFavorite, toggleFavorite } = useLibrary();
+  const favoriteTracks = useMemo(
+    () => tracks.filter((t) => isFavorite(jukeboxObjectId, t.id)),
+    [isFavorite, tracks, jukeboxObjectId]
   );
 
-  const fields = useMemo(() => getJukeboxFields(data?.data), [data]);
+  // The connected wallet's requests that will not play: rejected or expired on chain,
+  // or still queued but already past their deadline (claim_refund expires them itself)
+  const myRefunds = useMemo(() => {
+    if (!jukebox || !currentAccount) return [];
+    const { expired } = resolveSchedule(jukebox, jukebox.tracks, Date.now());
+    return [...jukebox.refundable, ...expired].filter((r) => r.requester === currentAccount.address);
+  }, [jukebox, currentAccount]);
 
-  // Auto-play locally whenever the on-chain current_track changes
-  useEffect(() => {
-    const title = fields?.current_track;
-    if (title && playerRef.current) {
-      playerRef.current.playByTitle(title);
+  // The player only knows about registered tracks
+  const playlist = useMemo(
+    () => tracks.map((t) => ({ id: t.id, title: t.title, file: t.blobId })),
+    [tracks]
+  );
+
+  // The player follows track changes itself; new uploads and fee changes need a refresh
+  const handleChainEvent = useCallback((event: SuiEvent) => {
+    switch (decodeJukeboxEvent(event, jukeboxPackageId)?.kind) {
+      case "TrackRegistered":
+        void refetchCatalog();
+        break;
+      case "FeeChanged":
+      case "PausedChanged":
+      case "RequestRefundable":
+      case "RefundClaimed":
+        void refetchJukebox();
+        break;
     }
-  }, [fields?.current_track]);
+  }, [jukeboxPackageId, refetchCatalog, refetchJukebox]);
 
-  // After the user connects, if we had a pending search, run it once.
+  // After the user connects, reopen the pending request so it gets simulated before signing.
   useEffect(() => {
-    if (currentAccount && pendingQuery) {
-      void doChangeTrack(pendingQuery);
+    if (currentAccount && pendingQuery !== null) {
+      setConfirmTrack(tracks.find((t) => t.id === pendingQuery) ?? null);
       setPendingQuery(null);
       setShowConnect(false);
     }
@@ -90,41 +132,37 @@ export default function App() {
 
   const missingIds = !jukeboxPackageId || !jukeboxObjectId;
 
-  // Core tx logic (splits a Coin<SUI> and calls change_track)
-  const doChangeTrack = async (newTitle: string) => {
+  // Core tx logic (splits a Coin<SUI> and calls change_track, or spends the pass `withPass`)
+  const doChangeTrack = async (trackId: number, gasBudgetMist: bigint, withPass: string | null = null) => {
+    if (feeMist === null) {
+      setUiMsg("The jukebox fee is not loaded yet.");
+      return;
+    }
     try {
       setUiMsg(null);
       setWaiting(true);
 
-      const tx = new Transaction();
-
-      // Set an explicit gas budget to help the dry-run determine costs.
-      tx.setGasBudget(GAS_BUDGET_MIST);
+      // 🪙 Pays EXACTLY the fee the Jukebox currently charges.
+      const ids = { packageId: jukeboxPackageId, objectId: jukeboxObjectId };
+      const tx = withPass
+        ? changeTrackWithPassTx(ids, { trackId, passId: withPass })
+        : changeTrackTx(ids, { trackId, feeMist });
 
-      // 🪙 Split EXACTLY the fee your Move function expects (1 SUI here).
-      const [payment] = tx.splitCoins(tx.gas, [tx.pure.u64(JUKEBOX_FEE_MIST)]);
-
-      // Signature expected: change_track(&mut Jukebox, Coin<SUI>, String, &mut TxContext)
-      tx.moveCall({
-        target: `${jukeboxPackageId}::jukebox::change_track`,
-        arguments: [
-          tx.object(jukeboxObjectId),   // &mut Jukebox
-          payment,                      // Coin<SUI> (exact fee)
-          tx.pure.string(newTitle),     // String
-        ],
-      });
+      // Same budget as the dry run the listener just reviewed
+      tx.setGasBudget(gasBudgetMist);
 
       signAndExecute(
         { transaction: tx },
         {
           onSuccess: async ({ digest }) => {
             await suiClient.waitForTransaction({ digest });
-            await refetch(); // pull fresh current_track from chain
+            if (withPass) void refetchPasses();
+            // The player picks the change up from the TrackRequested event
             // setUiMsg(`Track changed on-chain to "${newTitle}".`);
             setWaiting(false);
           },
           onError: (err) => {
-            setUiMsg(`Transaction failed: ${String((err as any)?.message || err)}`);
+            setUiMsg(`Transaction failed: ${explainTxError(String((err as any)?.message || err))}`);
             setWaiting(false);
           },
         },
@@ -135,13 +173,115 @@ export default function App() {
     }
   };
 
-  // Called by the Search component
-  const handleSearch = async (rawTitle: string) => {
-    const newTitle = rawTitle.trim();
-    if (!newTitle) {
-      setUiMsg("Type a track title first.");
+  // Gasless variant: the sponsor owns the gas coin, the listener only signs for the fee
+  const doSponsoredChangeTrack = async (trackId: number) => {
+    if (feeMist === null || !currentAccount) return;
+    try {
+      setUiMsg(null);
+      setWaiting(true);
+
+      const tx = changeTrackTx(
+        { packageId: jukeboxPackageId, objectId: jukeboxObjectId },
+        { trackId, feeMist, sponsored: true }
+      );
+      const sponsoredTx = await requestSponsorship(
+        suiClient,
+        network,
+        currentAccount.address,
+        tx,
+        async (message) => (await signPersonalMessage({ message })).signature
+      );
+      if ("error" in sponsoredTx) {
+        setUiMsg(`Gas sponsor refused the request: ${sponsoredTx.error}`);
+        return;
+      }
+
+      // Both parties sign the exact same bytes
+      const { signature } = await signTransaction({ transaction: sponsoredTx.bytes });
+      const result = await suiClient.executeTransactionBlock({
+        transactionBlock: sponsoredTx.bytes,
+        signature: [signature, sponsoredTx.signature],
+        options: { showEffects: true },
+      });
+      if (result.effects?.status.status === "failure") {
+        setUiMsg(`Transaction failed: ${explainTxError(result.effects.status.error ?? "")}`);
+        return;
+      }
+      await suiClient.waitForTransaction({ digest: result.digest });
+    } catch (e: any) {
+      setUiMsg(`Transaction failed: ${explainTxError(String(e?.message || e))}`);
+    } finally {
+      setWaiting(false);
+      void sponsor.refetch();
+    }
+  };
+
+  // Tips and skip votes: one signature, no confirmation sheet (the wallet shows what is sent)
+  const runListenerTx = (label: string, tx: Transaction, doneMsg: string) => {
+    if (!currentAccount) {
+      setShowConnect(true);
+      return;
+    }
+    if (waiting || missingIds) return;
+    setUiMsg(null);
+    setWaiting(true);
+    signAndExecute(
+      { transaction: tx },
+      {
+        onSuccess: async ({ digest }) => {
+          await suiClient.waitForTransaction({ digest });
+          // The player updates from the resulting event
+          setUiMsg(doneMsg);
+          setWaiting(false);
+        },
+        onError: (err) => {
+          setUiMsg(`${label} failed: ${explainTxError(String((err as any)?.message || err))}`);
+          setWaiting(false);
+        },
+      },
+    );
+  };
+
+  // Tips go straight to the artist of the track the room is on
+  const handleTip = (trackId: number, amountMist: string) =>
+    runListenerTx(
+      "Tip",
+      tipTx({ packageId: jukeboxPackageId, objectId: jukeboxObjectId }, { trackId, amountMist }),
+      `Thanks! ${formatSui(amountMist)} sent to the artist.`
+    );
+
+  const handleVoteSkip = () =>
+    runListenerTx(
+      "Skip vote",
+      voteSkipTx({ packageId: jukeboxPackageId, objectId: jukeboxObjectId }),
+      "Vote counted."
+    );
+
+  const handleClaimRefund = (requestId: number, paidMist: string) =>
+    runListenerTx(
+      "Refund",
+      claimRefundTx({ packageId: jukeboxPackageId, objectId: jukeboxObjectId }, requestId),
+      `${formatSui(paidMist)} refunded.`
+    );
+
+  const handleToggleFavorite = (trackId: number) => {
+    if (!currentAccount) {
+      setShowConnect(true);
       return;
     }
+    toggleFavorite(jukeboxObjectId, trackId).catch((e) => setUiMsg(`Favorites not saved: ${e?.message || String(e)}`));
+  };
+
+  // One of the listener's favorites (not the one playing), through the usual confirmation sheet
+  const handleRequestFavorite = () => {
+    const candidates = favoriteTracks.filter((t) => t.id !== jukebox?.currentTrackId);
+    const pool = candidates.length > 0 ? candidates : favoriteTracks;
+    const pick = pool[Math.floor(Math.random() * pool.length)];
+    if (pick) handleSelectTrack(pick.id);
+  };
+
+  // Called with the ID of a track picked in the player's search (SearchTrack) or from the favorites
+  const handleSelectTrack = (trackId: number) => {
     if (waiting) {
       setUiMsg("Please wait for the previous transaction.");
       return;
@@ -150,14 +290,35 @@ export default function App() {
       setUiMsg("Jukebox IDs are not configured for this network.");
       return;
     }
+    if (jukebox?.paused) {
+      setUiMsg("Requests are paused by the jukebox owner.");
+      return;
+    }
+    // Only registered tracks can be paid for
+    const track = tracks.find((t) => t.id === trackId);
+    if (!track) {
+      setUiMsg(`Track #${trackId} is not in the jukebox catalog.`);
+      return;
+    }
+    // Show who gets paid before asking for a signature
+    setConfirmTrack(track);
+  };
+
+  const handleConfirm = async () => {
+    const track = confirmTrack;
+    setConfirmTrack(null);
+    if (!track) return;
     // If not connected, open wallet and remember the intended action
     if (!currentAccount) {
-      setPendingQuery(newTitle);
+      setPendingQuery(track.id);
       setShowConnect(true);
       return;
     }
-    // Connected → run the tx
-    await doChangeTrack(newTitle);
+    // Connected → run the tx with the simulated budget
+    if (!preview.data || "error" in preview.data) return;
+    if (passId) await doChangeTrack(track.id, preview.data.gasBudgetMist, passId);
+    else if (gasless) await doSponsoredChangeTrack(track.id);
+    else await doChangeTrack(track.id, preview.data.gasBudgetMist);
   };
 
   return (
@@ -166,20 +327,72 @@ export default function App() {
       {error && <div className="text-sm text-red-600">Error: {error.message}</div>}
       {uiMsg && <div className="text-sm">{uiMsg}</div>}
 
-      {/* {fields?.current_track && (
+      {pass && (
         <div className="text-sm">
-          On-chain current track: <b>{fields.current_track}</b>
+          {pass.expiresAtMs === null
+            ? `Your pass: ${pass.credits} credit${pass.credits === 1 ? "" : "s"} left.`
+            : `Your unlimited pass runs until ${new Date(pass.expiresAtMs).toLocaleTimeString()}.`}
+        </div>
+      )}
+
+      {favoriteTracks.length > 0 && (
+        <button className="text-sm underline" onClick={handleRequestFavorite} disabled={waiting}>
+          Request from my favorites ({favoriteTracks.length})
+        </button>
+      )}
+
+      {myRefunds.length > 0 && (
+        <div className="text-sm space-y-1">
+          {myRefunds.map((r) => (
+            <div key={r.id}>
+              {tracks.find((t) => t.id === r.trackId)?.title ?? `Track #${r.trackId}`} will not play.{" "}
+              <button className="underline" onClick={() => handleClaimRefund(r.id, r.paidMist)} disabled={waiting}>
+                Claim refund ({formatSui(r.paidMist)})
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* {jukebox?.currentTrackId != null && (
+        <div className="text-sm">
+          On-chain current track: <b>{jukebox.currentTrackId}</b>
         </div>
       )} */}
 
-      {/* Local player mirrors the on-chain title list */}
+      {/* Local player mirrors the on-chain track registry */}
       <AudioPlayer
         ref={playerRef}
-        playlist={PLAYLIST}
-        onTrackSelect={handleSearch}
+        playlist={playlist}
+        onTrackSelect={handleSelectTrack}
+        onTip={handleTip}
+        onVoteSkip={handleVoteSkip}
+        isFavorite={(trackId) => isFavorite(jukeboxObjectId, trackId)}
+        onToggleFavorite={handleToggleFavorite}
+        onChainEvent={handleChainEvent}
         isWaiting={waiting}
       />
 
+      {confirmTrack && jukebox && (
+        <RequestConfirm
+          track={confirmTrack}
+          feeMist={Number(jukebox.feeMist)}
+          split={jukebox.split}
+          isWaiting={waiting}
+          isConnected={Boolean(currentAccount)}
+          preview={preview.data ?? (preview.error ? { error: preview.error.message } : undefined)}
+          previewPending={preview.isFetching}
+          sponsorRemaining={sponsorRemaining}
+          sponsored={gasless}
+          onSponsoredChange={setSponsored}
+          pass={pass}
+          usePass={usePass}
+          onUsePassChange={setUsePass}
+          onConfirm={() => void handleConfirm()}
+          onCancel={() => setConfirmTrack(null)}
+        />
+      )}
+
       {/* Wallet connect modal; lives anywhere under WalletProvider */}
       <ConnectModal
         trigger={<div />}
@@ -0,0 +1,454 @@
+"use client";
+
+import { useState } from "react";
+import {
+  ConnectButton,
+  useCurrentAccount,
+  useSignAndExecuteTransaction,
+  useSuiClient,
+  useSuiClientContext,
+} from "@mysten/dapp-kit";
+import { formatAddress } from "@mysten/sui/utils";
+import { Transaction } from "@mysten/sui/transactions";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useAdminCap } from "@/hooks/useAdminCap";
+import { useJukebox } from "@/hooks/useJukebox";
+import { useRoomId } from "@/hooks/useRoomId";
+import { useTrackCatalog } from "@/hooks/useTrackCatalog";
+import { formatSui, parseAddress, parseSuiToMist } from "@/lib/format";
+import {
+  explainTxError,
+  JukeboxIds,
+  rejectRequestTx,
+  removeTrackTx,
+  setArtworkBaseUrlTx,
+  setEscrowTimeoutTx,
+  setFeeTx,
+  setPassPolicyTx,
+  setPausedTx,
+  fundRefundsTx,
+  setPayoutAddressTx,
+  setSkipPolicyTx,
+  setSplitTx,
+  skipCurrentTx,
+  transferOwnershipTx,
+  withdrawRefundsTx,
+} from "@/lib/jukebox";
+import { BPS_DENOMINATOR } from "@/lib/split";
+import { artworkBaseUrl, MAX_TRACK_DURATION_MS } from "@/lib/tracks";
+import { useNetworkVariable } from "@/networkConfig";
+
+// "12.5" (%) -> 1250 (bps)
+function percentToBps(input: string): number | null {
+  const value = Number(input);
+  if (!input.trim() || !Number.isFinite(value) || value < 0 || value > 100) return null;
+  return Math.round((value * BPS_DENOMINATOR) / 100);
+}
+
+export default function AdminPage() {
+  const jukeboxPackageId = useNetworkVariable("jukeboxPackageId");
+  const jukeboxObjectId = useRoomId();
+
+  const suiClient = useSuiClient();
+  const { network } = useSuiClientContext();
+  const currentAccount = useCurrentAccount();
+  const { mutate: signAndExecute } = useSignAndExecuteTransaction();
+  const { jukebox, refetch: refetchJukebox } = useJukebox();
+  const { capId, isPending: capPending, refetch: refetchCap } = useAdminCap();
+  const { tracks, allTracks } = useTrackCatalog();
+  const ids: JukeboxIds = { packageId: jukeboxPackageId, objectId: jukeboxObjectId };
+
+  const [waiting, setWaiting] = useState(false);
+  const [uiMsg, setUiMsg] = useState<string | null>(null);
+  const [feeInput, setFeeInput] = useState("");
+  const [artistInput, setArtistInput] = useState("");
+  const [curatorInput, setCuratorInput] = useState("");
+  const [curatorAddressInput, setCuratorAddressInput] = useState("");
+  const [payoutInput, setPayoutInput] = useState("");
+  const [newOwnerInput, setNewOwnerInput] = useState("");
+  const [newPayoutInput, setNewPayoutInput] = useState("");
+  const [skipThresholdInput, setSkipThresholdInput] = useState("");
+  const [skipRefundInput, setSkipRefundInput] = useState("");
+  const [refundFundInput, setRefundFundInput] = useState("");
+  const [escrowTimeoutInput, setEscrowTimeoutInput] = useState("");
+  const [passPriceInput, setPassPriceInput] = useState("");
+  const [artworkUrlInput, setArtworkUrlInput] = useState("");
+  const [passHoursInput, setPassHoursInput] = useState("");
+  const [passIntervalInput, setPassIntervalInput] = useState("");
+
+  // Every admin action is a single `jukebox::<fn>(cap, ...)` call
+  const runAdminCall = (label: string, build: (capId: string) => Transaction) => {
+    if (!capId) return;
+    setUiMsg(null);
+    setWaiting(true);
+
+    const tx = build(capId);
+
+    signAndExecute(
+      { transaction: tx },
+      {
+        onSuccess: async ({ digest }) => {
+          await suiClient.waitForTransaction({ digest });
+          await Promise.all([refetchJukebox(), refetchCap()]);
+          setUiMsg(`${label}: done.`);
+          setWaiting(false);
+        },
+        onError: (err) => {
+          setUiMsg(`${label} failed: ${explainTxError(String((err as any)?.message || err))}`);
+          setWaiting(false);
+        },
+      },
+    );
+  };
+
+  const handleFee = () => {
+    const mist = parseSuiToMist(feeInput);
+    if (mist === null) {
+      setUiMsg("Enter the fee in SUI, e.g. 0.5");
+      return;
+    }
+    runAdminCall("Fee update", (cap) => setFeeTx(ids, cap, mist));
+  };
+
+  const handlePaused = (paused: boolean) => {
+    runAdminCall(paused ? "Pause" : "Unpause", (cap) => setPausedTx(ids, cap, paused));
+  };
+
+  const handleSplit = () => {
+    const artistBps = percentToBps(artistInput);
+    const curatorBps = curatorInput.trim() ? percentToBps(curatorInput) : 0;
+    const curator = parseAddress(curatorAddressInput);
+    if (artistBps === null || curatorBps === null || curator === undefined) {
+      setUiMsg("Shares are percentages between 0 and 100; the curator must be a valid address or empty.");
+      return;
+    }
+    if (artistBps + curatorBps > BPS_DENOMINATOR) {
+      setUiMsg("Artist and curator shares cannot exceed 100% together.");
+      return;
+    }
+    runAdminCall("Split update", (cap) => setSplitTx(ids, cap, { artistBps, curatorBps, curator }));
+  };
+
+  const handlePayout = () => {
+    const payout = parseAddress(payoutInput);
+    if (!payout) {
+      setUiMsg("Enter a valid payout address.");
+      return;
+    }
+    runAdminCall("Payout address update", (cap) => setPayoutAddressTx(ids, cap, payout));
+  };
+
+  const handleSkipPolicy = () => {
+    const threshold = Number(skipThresholdInput);
+    const refundBps = skipRefundInput.trim() ? percentToBps(skipRefundInput) : 0;
+    if (!skipThresholdInput.trim() || !Number.isInteger(threshold) || threshold < 0 || refundBps === null) {
+      setUiMsg("The threshold is a whole number of votes (0 turns skipping off); the refund is a percentage between 0 and 100.");
+      return;
+    }
+    runAdminCall("Skip policy update", (cap) => setSkipPolicyTx(ids, cap, { threshold, refundBps }));
+  };
+
+  const handleFundRefunds = () => {
+    const mist = parseSuiToMist(refundFundInput);
+    if (mist === null || mist === "0") {
+      setUiMsg("Enter the amount to add in SUI, e.g. 2");
+      return;
+    }
+    runAdminCall("Refund pool top-up", (cap) => fundRefundsTx(ids, cap, mist));
+  };
+
+  const handleEscrowTimeout = () => {
+    const minutes = Number(escrowTimeoutInput);
+    if (!escrowTimeoutInput.trim() || !Number.isFinite(minutes) || minutes * 60_000 < MAX_TRACK_DURATION_MS) {
+      setUiMsg(`Enter the timeout in minutes, at least ${MAX_TRACK_DURATION_MS / 60_000} (the longest track)`);
+      return;
+    }
+    runAdminCall("Refund timeout update", (cap) => setEscrowTimeoutTx(ids, cap, Math.round(minutes * 60_000)));
+  };
+
+  const handlePassPolicy = () => {
+    const priceMist = passPriceInput.trim() ? parseSuiToMist(passPriceInput) : "0";
+    const hours = Number(passHoursInput);
+    const minutes = passIntervalInput.trim() ? Number(passIntervalInput) : 0;
+    if (priceMist === null || !(hours > 0) || !Number.isFinite(minutes) || minutes < 0) {
+      setUiMsg("Enter the pass price in SUI (empty or 0 stops sales), its length in hours and the minutes between requests.");
+      return;
+    }
+    runAdminCall("Pass update", (cap) =>
+      setPassPolicyTx(ids, cap, {
+        priceMist,
+        durationMs: Math.round(hours * 3_600_000),
+        minIntervalMs: Math.round(minutes * 60_000),
+      })
+    );
+  };
+
+  const handleArtworkUrl = () => {
+    const url = artworkUrlInput.trim();
+    if (url && !/^https?:\/\//.test(url)) {
+      setUiMsg("The artwork URL must start with http:// or https://, or be empty.");
+      return;
+    }
+    runAdminCall("Receipt artwork update", (cap) => setArtworkBaseUrlTx(ids, cap, url));
+  };
+
+  const handleTransfer = () => {
+    const newOwner = parseAddress(newOwnerInput);
+    if (!newOwner) {
+      setUiMsg("Enter a valid address for the new owner.");
+      return;
+    }
+    // Left empty, the platform share follows the cap
+    const newPayout = newPayoutInput.trim() ? parseAddress(newPayoutInput) : newOwner;
+    if (!newPayout) {
+      setUiMsg("Enter a valid payout address, or leave it empty to pay the new owner.");
+      return;
+    }
+    const confirmText =
+      `Give the jukebox AdminCap to ${newOwner} and send the platform share to ${newPayout}? ` +
+      "You will lose admin access.";
+    if (!window.confirm(confirmText)) return;
+    runAdminCall("Ownership transfer", (cap) => transferOwnershipTx(ids, cap, newOwner, newPayout));
+  };
+
+  const paused = Boolean(jukebox?.paused);
+  const titleOf = (trackId: number) => allTracks.find((t) => t.id === trackId)?.title ?? `Track #${trackId}`;
+
+  return (
+    <div className="bg-white text-black min-h-screen p-6 flex justify-center">
+      <Card className="w-full max-w-xl">
+        <CardHeader>
+          <CardTitle>Jukebox admin</CardTitle>
+          <CardDescription>Actions are signed with the AdminCap held by the connected wallet.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {!currentAccount && <ConnectButton />}
+          {currentAccount && capPending && <div className="text-sm">Looking for your AdminCap…</div>}
+          {currentAccount && !capPending && !capId && (
+            <div className="text-sm text-red-600">This wallet does not hold the AdminCap of this jukebox.</div>
+          )}
+
+          {capId && jukebox && (
+            <>
+              <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+                <dt>Fee</dt><dd>{formatSui(jukebox.feeMist)}</dd>
+                <dt>Requests</dt><dd>{paused ? "Paused" : "Open"}</dd>
+                <dt>Payout address</dt><dd className="break-all">{jukebox.payoutAddress}</dd>
+                <dt>Artist share</dt><dd>{(jukebox.split.artistBps * 100) / BPS_DENOMINATOR}%</dd>
+                <dt>Curator share</dt>
+                <dd>{jukebox.split.curator ? `${(jukebox.split.curatorBps * 100) / BPS_DENOMINATOR}% to ${jukebox.split.curator}` : "None"}</dd>
+                <dt>Vote to skip</dt>
+                <dd>
+                  {jukebox.skip.threshold > 0
+                    ? `${jukebox.skip.threshold} votes, ${(jukebox.skip.refundBps * 100) / BPS_DENOMINATOR}% refunded`
+                    : "Off"}
+                </dd>
+                <dt>Refund pool</dt><dd>{formatSui(jukebox.skip.refundPoolMist)}</dd>
+                <dt>In escrow</dt><dd>{formatSui(jukebox.escrowMist)}</dd>
+                <dt>Refund timeout</dt><dd>{Math.round(jukebox.escrowTimeoutMs / 60_000)} min</dd>
+                <dt>Receipt artwork</dt><dd className="break-all">{jukebox.receipts.artworkBaseUrl || "None"}</dd>
+                <dt>Unlimited pass</dt>
+                <dd>
+                  {jukebox.passPolicy.priceMist === "0"
+                    ? "Not sold"
+                    : `${formatSui(jukebox.passPolicy.priceMist)} for ${jukebox.passPolicy.durationMs / 3_600_000} h, one request every ${Math.round(jukebox.passPolicy.minIntervalMs / 60_000)} min`}
+                </dd>
+              </dl>
+
+              <section className="space-y-2">
+                <h3 className="font-medium">Requests</h3>
+                <div className="flex gap-2">
+                  <Button onClick={() => handlePaused(!paused)} disabled={waiting}>
+                    {paused ? "Unpause requests" : "Pause requests"}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => runAdminCall("Skip", (cap) => skipCurrentTx(ids, cap))}
+                    disabled={waiting || jukebox.currentTrackId === null}
+                  >
+                    Skip current play
+                  </Button>
+                </div>
+              </section>
+
+              <section className="space-y-2">
+                <h3 className="font-medium">Catalog</h3>
+                <p className="text-sm text-slate-600">
+                  Removing a track ends it if it is playing and makes its queued requests refundable. Track IDs do not change.
+                </p>
+                {tracks.length === 0 && <div className="text-sm">No tracks in this room yet.</div>}
+                <ul className="space-y-1 text-sm">
+                  {tracks.map((t) => (
+                    <li key={t.id} className="flex items-center gap-2">
+                      <span className="flex-1">
+                        #{t.id} {t.title} · {Math.round(t.durationMs / 1000)} s
+                      </span>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          if (!window.confirm(`Remove “${t.title}” from the catalog?`)) return;
+                          runAdminCall("Track removal", (cap) => removeTrackTx(ids, cap, t.id));
+                        }}
+                        disabled={waiting}
+                      >
+                        Remove
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+
+              <section className="space-y-2">
+                <h3 className="font-medium">Queue</h3>
+                <p className="text-sm text-slate-600">
+                  Fees stay in escrow until a request plays. Rejected requests, and those not started within the
+                  refund timeout, can be claimed back by their requester.
+                </p>
+                {jukebox.queue.length === 0 && <div className="text-sm">Nothing queued.</div>}
+                <ul className="space-y-1 text-sm">
+                  {jukebox.queue.map((r) => (
+                    <li key={r.id} className="flex items-center gap-2">
+                      <span className="flex-1">
+                        {titleOf(r.trackId)} · <span title={r.requester}>{formatAddress(r.requester)}</span> · {formatSui(r.paidMist)}
+                      </span>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => runAdminCall("Reject", (cap) => rejectRequestTx(ids, cap, r.id))}
+                        disabled={waiting}
+                      >
+                        Reject
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex gap-2">
+                  <Input
+                    value={escrowTimeoutInput}
+                    onChange={(e) => setEscrowTimeoutInput(e.target.value)}
+                    placeholder="Refund timeout (minutes, at least 120)"
+                  />
+                  <Button onClick={handleEscrowTimeout} disabled={waiting}>Update</Button>
+                </div>
+              </section>
+
+              <section className="space-y-2">
+                <h3 className="font-medium">Fee (SUI)</h3>
+                <div className="flex gap-2">
+                  <Input value={feeInput} onChange={(e) => setFeeInput(e.target.value)} placeholder="1" />
+                  <Button onClick={handleFee} disabled={waiting}>Update</Button>
+                </div>
+              </section>
+
+              <section className="space-y-2">
+                <h3 className="font-medium">Revenue split (%)</h3>
+                <div className="flex gap-2">
+                  <Input value={artistInput} onChange={(e) => setArtistInput(e.target.value)} placeholder="Artist, e.g. 70" />
+                  <Input value={curatorInput} onChange={(e) => setCuratorInput(e.target.value)} placeholder="Curator, e.g. 10" />
+                </div>
+                <div className="flex gap-2">
+                  <Input
+                    value={curatorAddressInput}
+                    onChange={(e) => setCuratorAddressInput(e.target.value)}
+                    placeholder="Curator address (optional)"
+                  />
+                  <Button onClick={handleSplit} disabled={waiting}>Update</Button>
+                </div>
+              </section>
+
+              <section className="space-y-2">
+                <h3 className="font-medium">Unlimited pass</h3>
+                <div className="flex gap-2">
+                  <Input value={passPriceInput} onChange={(e) => setPassPriceInput(e.target.value)} placeholder="Price (SUI), 0 = not sold" />
+                  <Input value={passHoursInput} onChange={(e) => setPassHoursInput(e.target.value)} placeholder="Hours, e.g. 4" />
+                  <Input value={passIntervalInput} onChange={(e) => setPassIntervalInput(e.target.value)} placeholder="Minutes between requests" />
+                  <Button onClick={handlePassPolicy} disabled={waiting}>Update</Button>
+                </div>
+                <p className="text-sm text-slate-600">Credit passes are always sold at the request fee per credit.</p>
+              </section>
+
+              <section className="space-y-2">
+                <h3 className="font-medium">Receipt artwork</h3>
+                <p className="text-sm text-slate-600">
+                  Play receipts show the cover served at this URL followed by the track&apos;s blob reference.
+                  The app&apos;s artwork route only serves tracks of the room named in the URL.
+                </p>
+                <div className="flex gap-2">
+                  <Input
+                    value={artworkUrlInput}
+                    onChange={(e) => setArtworkUrlInput(e.target.value)}
+                    placeholder="https://…/api/tracks/artwork?network=…&room=…&ref="
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => setArtworkUrlInput(window.location.origin + artworkBaseUrl(network, jukeboxObjectId))}
+                  >
+                    This site
+                  </Button>
+                  <Button onClick={handleArtworkUrl} disabled={waiting}>Update</Button>
+                </div>
+              </section>
+
+              <section className="space-y-2">
+                <h3 className="font-medium">Vote to skip</h3>
+                <div className="flex gap-2">
+                  <Input
+                    value={skipThresholdInput}
+                    onChange={(e) => setSkipThresholdInput(e.target.value)}
+                    placeholder="Votes needed, 0 = off"
+                  />
+                  <Input
+                    value={skipRefundInput}
+                    onChange={(e) => setSkipRefundInput(e.target.value)}
+                    placeholder="Refund to requester, %"
+                  />
+                  <Button onClick={handleSkipPolicy} disabled={waiting}>Update</Button>
+                </div>
+                <p className="text-sm text-slate-600">Refunds of skipped requests are paid from the refund pool.</p>
+                <div className="flex gap-2">
+                  <Input value={refundFundInput} onChange={(e) => setRefundFundInput(e.target.value)} placeholder="Add to pool (SUI)" />
+                  <Button onClick={handleFundRefunds} disabled={waiting}>Add</Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => runAdminCall("Refund pool withdrawal", (cap) => withdrawRefundsTx(ids, cap))}
+                    disabled={waiting || jukebox.skip.refundPoolMist === "0"}
+                  >
+                    Withdraw all
+                  </Button>
+                </div>
+              </section>
+
+              <section className="space-y-2">
+                <h3 className="font-medium">Payout address</h3>
+                <div className="flex gap-2">
+                  <Input value={payoutInput} onChange={(e) => setPayoutInput(e.target.value)} placeholder="0x…" />
+                  <Button onClick={handlePayout} disabled={waiting}>Update</Button>
+                </div>
+              </section>
+
+              <section className="space-y-2">
+                <h3 className="font-medium">Transfer ownership</h3>
+                <div className="flex gap-2">
+                  <Input value={newOwnerInput} onChange={(e) => setNewOwnerInput(e.target.value)} placeholder="New owner 0x…" />
+                  <Input
+                    value={newPayoutInput}
+                    onChange={(e) => setNewPayoutInput(e.target.value)}
+                    placeholder="Payout 0x… (default: new owner)"
+                  />
+                  <Button variant="destructive" onClick={handleTransfer} disabled={waiting}>Transfer</Button>
+                </div>
+                <p className="text-sm text-slate-600">The payout address changes with the cap, so your share stops too.</p>
+              </section>
+            </>
+          )}
+
+          {uiMsg && <div className="text-sm">{uiMsg}</div>}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,66 +1,33 @@
 import { NextResponse } from 'next/server';
-import { SuiClient, getFullnodeUrl } from '@mysten/sui/client';
 
-// Configuration pour se connecter à SUI (testnet pour correspondre aux IDs)
-const suiClient = new SuiClient({ url: getFullnodeUrl('testnet') });
+import { readNowPlaying } from '@/lib/nowPlaying';
+import { chainFromRequest, invalidChainResponse, isJukeboxConfigured } from '@/lib/serverChain';
 
-import { TESTNET_JUKEBOX_OBJECT_ID } from '@/constants';
+// `?network=devnet|testnet|mainnet|localnet`, testnet par défaut.
+// `?room=0x…` choisit la salle ; sans lui, le jukebox par défaut du réseau
+export async function GET(request: Request) {
+  const chain = chainFromRequest(request);
+  if (!chain) return invalidChainResponse(request);
 
-// Utilise l'ID du réseau devnet par défaut
-// En production, on devrait détecter le réseau actuel
-const JUKEBOX_OBJECT_ID = process.env.NEXT_PUBLIC_JUKEBOX_OBJECT_ID || TESTNET_JUKEBOX_OBJECT_ID;
-
-export async function GET() {
   try {
-    if (!JUKEBOX_OBJECT_ID || JUKEBOX_OBJECT_ID === "YOUR_JUKEBOX_OBJECT_ID") {
+    if (!isJukeboxConfigured(chain)) {
       return NextResponse.json({
-        error: 'JUKEBOX_OBJECT_ID not configured',
+        error: `JUKEBOX_OBJECT_ID not configured for ${chain.network}`,
         current_track: null
       });
     }
 
     // Lire l'objet Jukebox depuis la blockchain SUI
-    const response = await suiClient.getObject({
-      id: JUKEBOX_OBJECT_ID,
-      options: { showContent: true }
-    });
-
-    if (!response.data) {
-      return NextResponse.json({
-        error: 'Jukebox object not found',
-        current_track: null
-      });
-    }
+    const nowPlaying = await readNowPlaying(chain.client, chain.objectId);
 
-    // Extraire les fields du Move object
-    const content = response.data.content;
-    if (content?.dataType !== 'moveObject') {
+    if ('error' in nowPlaying) {
       return NextResponse.json({
-        error: 'Invalid object type',
+        error: nowPlaying.error,
         current_track: null
       });
     }
 
-    const fields = (content as any).fields;
-    const currentTrack = fields?.current_track;
-
-    console.log('Chain current track:', currentTrack);
-
-    // Mapper le title vers un file si nécessaire
-    const trackMapping: Record<string, string> = {
-      'Horizon': 'horizon',
-      'skelet': 'inside_out',
-      'wax': 'wax',
-      'atmosphere': 'atmosphere'
-    };
-	
-return NextResponse.json({
-      current_track: currentTrack,
-      title: currentTrack,
-      file: trackMapping[currentTrack] || null,
-      last_buyer: fields?.last_buyer,
-      fee: fields?.fee
-    });
+    return NextResponse.json(nowPlaying);
 
   } catch (error) {
     console.error('Error fetching from SUI blockchain:', error);
@@ -71,4 +38,3 @@ return NextResponse.json({
     }, { status: 500 });
   }
 }
-  
\ No newline at end of file
@@ -0,0 +1,56 @@
+import { subscribeToChain } from '@/lib/chainWatcher';
+import { chainFromRequest, invalidChainResponse, isJukeboxConfigured } from '@/lib/serverChain';
+
+// Long-lived response, never cached or prerendered
+export const dynamic = 'force-dynamic';
+
+const KEEP_ALIVE_MS = 15_000;
+
+// Server-Sent Events: `now-playing` snapshots (track, queue, fee) and raw `jukebox-event`s.
+// `?network=` picks the chain (defaults to testnet), `?room=` the jukebox (defaults to the network's).
+export async function GET(request: Request) {
+  const chain = chainFromRequest(request);
+  if (!chain) return invalidChainResponse(request);
+  if (!isJukeboxConfigured(chain)) {
+    return Response.json({ error: `JUKEBOX_OBJECT_ID not configured for ${chain.network}` }, { status: 503 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      const unsubscribe = subscribeToChain(chain, {
+        // Stamp the send time so clients can correct their clock
+        onSnapshot: (snapshot) => send('now-playing', { ...snapshot, server_time_ms: Date.now() }),
+        onEvent: (event) => send('jukebox-event', event),
+      });
+      const keepAlive = setInterval(() => controller.enqueue(encoder.encode(': keep-alive\n\n')), KEEP_ALIVE_MS);
+
+      cleanup = () => {
+        clearInterval(keepAlive);
+        unsubscribe();
+        cleanup = () => {};
+      };
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try { controller.close(); } catch { /* already closed */ }
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+
+import { parseAddress } from '@/lib/format';
+import { buildLeaderboard, isLeaderboardSort, isLeaderboardWindow, LEADERBOARD_WINDOWS } from '@/lib/leaderboard';
+import { chainFromRequest, invalidChainResponse, isJukeboxConfigured } from '@/lib/serverChain';
+
+// Classement des demandeurs et popularité des pistes d'une salle.
+// `?network=` et `?room=` comme /api/chain/current-track, `?window=day|week|all`, `?sort=requests|spent`,
+// `?address=0x…` pour ses propres stats
+export async function GET(request: Request) {
+  const chain = chainFromRequest(request);
+  if (!chain) return invalidChainResponse(request);
+  if (!isJukeboxConfigured(chain)) {
+    return NextResponse.json({ error: `JUKEBOX_OBJECT_ID not configured for ${chain.network}` }, { status: 503 });
+  }
+
+  const params = new URL(request.url).searchParams;
+  const window = params.get('window') ?? 'all';
+  if (!isLeaderboardWindow(window)) {
+    return NextResponse.json({ error: `Unknown window: ${window}`, windows: Object.keys(LEADERBOARD_WINDOWS) }, { status: 400 });
+  }
+  const sort = params.get('sort') ?? 'requests';
+  if (!isLeaderboardSort(sort)) {
+    return NextResponse.json({ error: `Unknown sort: ${sort}` }, { status: 400 });
+  }
+  const address = parseAddress(params.get('address') ?? '');
+  if (address === undefined) {
+    return NextResponse.json({ error: 'Invalid address' }, { status: 400 });
+  }
+
+  try {
+    const leaderboard = await buildLeaderboard(chain, window, sort, address);
+    return NextResponse.json(leaderboard, {
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    console.error('Error building leaderboard:', error);
+    return NextResponse.json({
+      error: 'Failed to build leaderboard',
+      details: error instanceof Error ? error.message : String(error),
+    }, { status: 500 });
+  }
+}
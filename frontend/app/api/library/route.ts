@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+
+import { parseAddress } from '@/lib/format';
+import { LibraryProof } from '@/lib/library/proof';
+import { readLibrary, verifyLibraryProof, writeLibrary } from '@/lib/library/store';
+import { parseLibrary } from '@/lib/library/types';
+import { chainFromRequest, invalidChainResponse } from '@/lib/serverChain';
+
+function addressFromRequest(request: Request): string | null {
+  return parseAddress(new URL(request.url).searchParams.get('address') ?? '') ?? null;
+}
+
+// Favoris et playlists d'un wallet : `?network=…&address=0x…` (lecture publique)
+export async function GET(request: Request) {
+  const chain = chainFromRequest(request);
+  if (!chain) return invalidChainResponse(request);
+  const address = addressFromRequest(request);
+  if (!address) return NextResponse.json({ error: 'Expected ?address=0x…' }, { status: 400 });
+
+  return NextResponse.json(await readLibrary(chain.network, address), {
+    headers: { 'Cache-Control': 'no-store' },
+  });
+}
+
+// Corps : { proof: { message, signature }, library: { favorites, playlists } }.
+// `proof` est le message de session signé par le wallet (voir lib/library/proof.ts) ; la bibliothèque est remplacée en entier.
+export async function PUT(request: Request) {
+  const chain = chainFromRequest(request);
+  if (!chain) return invalidChainResponse(request);
+  const address = addressFromRequest(request);
+  if (!address) return NextResponse.json({ error: 'Expected ?address=0x…' }, { status: 400 });
+
+  let body: { proof?: Partial<LibraryProof>; library?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  const { proof } = body;
+  if (typeof proof?.message !== 'string' || typeof proof.signature !== 'string') {
+    return NextResponse.json({ error: 'Expected { proof: { message, signature }, library }' }, { status: 400 });
+  }
+
+  const denied = await verifyLibraryProof({ message: proof.message, signature: proof.signature }, chain.network, address);
+  if (denied) return NextResponse.json({ error: denied }, { status: 401 });
+
+  const library = parseLibrary(body.library);
+  if ('error' in library) return NextResponse.json({ error: library.error }, { status: 400 });
+
+  try {
+    return NextResponse.json(await writeLibrary(chain.network, address, library));
+  } catch (error) {
+    console.error('Saving library failed:', error);
+    return NextResponse.json({
+      error: 'Failed to save library',
+      details: error instanceof Error ? error.message : String(error),
+    }, { status: 500 });
+  }
+}
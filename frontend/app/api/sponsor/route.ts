@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import { fromBase64, isValidSuiAddress, normalizeSuiAddress } from '@mysten/sui/utils';
+
+import { chainFromRequest, invalidChainResponse } from '@/lib/serverChain';
+import { getSponsor, sponsorTransaction } from '@/lib/sponsor';
+
+function parseSender(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const address = normalizeSuiAddress(value);
+  return isValidSuiAddress(address) ? address : null;
+}
+
+// Disponibilité du sponsor et quota restant : `?network=…&address=0x…`
+export async function GET(request: Request) {
+  const chain = chainFromRequest(request);
+  if (!chain) return invalidChainResponse(request);
+
+  const state = getSponsor(chain);
+  if (!state) return NextResponse.json({ enabled: false });
+
+  const sender = parseSender(new URL(request.url).searchParams.get('address'));
+  return NextResponse.json({
+    enabled: true,
+    sponsor: state.sponsor.address,
+    daily_limit: state.policy.dailyLimit,
+    remaining: sender ? state.limiter.remaining(sender) : null,
+  });
+}
+
+// Corps : { sender, tx_kind, message, signature } (TransactionKind en base64, construit avec onlyTransactionKind ;
+// message : sponsorMessage en base64, avec le hash de ces bytes et l'heure ; signature : message personnel
+// du sender sur ce message, pour que personne ne consomme son quota ni ne rejoue une demande).
+// Réponse : { bytes, signature } ; l'utilisateur signe les mêmes bytes puis exécute avec les deux signatures.
+export async function POST(request: Request) {
+  const chain = chainFromRequest(request);
+  if (!chain) return invalidChainResponse(request);
+
+  const state = getSponsor(chain);
+  if (!state) {
+    return NextResponse.json({ error: `No gas sponsor configured for ${chain.network}` }, { status: 503 });
+  }
+
+  let body: { sender?: unknown; tx_kind?: unknown; message?: unknown; signature?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  const sender = parseSender(body.sender);
+  if (
+    !sender ||
+    typeof body.tx_kind !== 'string' ||
+    typeof body.message !== 'string' ||
+    typeof body.signature !== 'string'
+  ) {
+    return NextResponse.json({ error: 'Expected { sender, tx_kind, message, signature }' }, { status: 400 });
+  }
+
+  try {
+    const result = await sponsorTransaction(
+      chain,
+      state,
+      sender,
+      fromBase64(body.tx_kind),
+      fromBase64(body.message),
+      body.signature
+    );
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Sponsoring failed:', error);
+    return NextResponse.json({
+      error: 'Failed to sponsor transaction',
+      details: error instanceof Error ? error.message : String(error),
+    }, { status: 502 });
+  }
+}
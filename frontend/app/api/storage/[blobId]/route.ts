@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+
+import { getBlobStorage } from '@/lib/storage';
+
+// Streams blobs kept by the local-disk storage (Walrus blobs are read from the aggregator directly)
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ blobId: string }> }
+) {
+  const { blobId } = await params;
+  const blob = await getBlobStorage('local').read(blobId);
+
+  if (!blob) {
+    return NextResponse.json({ error: 'Blob not found' }, { status: 404 });
+  }
+
+  return new NextResponse(blob.bytes as BodyInit, {
+    headers: {
+      'Content-Type': blob.contentType,
+      'Content-Length': String(blob.bytes.byteLength),
+      // Content-addressed: the bytes behind an ID never change
+      'Cache-Control': 'public, max-age=31536000, immutable',
+    },
+  });
+}
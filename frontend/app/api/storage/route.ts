@@ -0,0 +1,119 @@
+import { NextResponse } from 'next/server';
+import { parseBuffer } from 'music-metadata';
+import { fromBase64 } from '@mysten/sui/utils';
+import { verifyPersonalMessageSignature } from '@mysten/sui/verify';
+
+import { positiveIntegerEnv } from '@/lib/env';
+import { parseAddress } from '@/lib/format';
+import { createRateLimit, trustedClientAddress } from '@/lib/rateLimit';
+import { getBlobStorage } from '@/lib/storage';
+import { parseUploadMessage, sha256Hex, UPLOAD_PROOF_MAX_AGE_MS } from '@/lib/storage/uploadProof';
+import { MAX_BLOB_BYTES, toBlobRef } from '@/lib/storage/types';
+import { MAX_TRACK_DURATION_MS } from '@/lib/tracks';
+
+// Multipart boundaries and headers around the file
+const MAX_FORM_OVERHEAD_BYTES = 64 * 1024;
+const UPLOAD_WINDOW_MS = 60 * 60 * 1000;
+
+// Uploads per hour, per signing wallet and (behind a trusted proxy) per client address
+const uploadLimit = createRateLimit('upload', positiveIntegerEnv('UPLOAD_RATE_LIMIT', 10), UPLOAD_WINDOW_MS);
+
+// Le nom et le type MIME viennent du client : seul le contenu décodé fait foi
+async function checkMp3(bytes: Uint8Array): Promise<string | null> {
+  try {
+    const { format } = await parseBuffer(bytes, { size: bytes.byteLength });
+    if (format.container !== 'MPEG' || !format.codec?.startsWith('MPEG')) return 'Only MP3 files are accepted';
+    if (!format.duration || format.duration * 1000 > MAX_TRACK_DURATION_MS) return 'Tracks must last at most 2 hours';
+    return null;
+  } catch {
+    return 'Only MP3 files are accepted';
+  }
+}
+
+// Adresse du wallet qui a signé l'envoi de ce fichier (voir lib/storage/uploadProof.ts)
+async function uploaderAddress(form: FormData, bytes: Uint8Array): Promise<string | { error: string }> {
+  const message = form.get('message');
+  const signature = form.get('signature');
+  if (typeof message !== 'string' || typeof signature !== 'string') return { error: 'Missing upload signature' };
+
+  let messageBytes: Uint8Array;
+  try {
+    messageBytes = fromBase64(message);
+  } catch {
+    return { error: 'Malformed upload message' };
+  }
+  const claims = parseUploadMessage(new TextDecoder().decode(messageBytes));
+  const address = claims && parseAddress(claims.address);
+  if (!claims || !address) return { error: 'Not a jukebox upload message' };
+  if (Math.abs(Date.now() - claims.signedAtMs) > UPLOAD_PROOF_MAX_AGE_MS) return { error: 'Upload signature expired, try again' };
+  if (claims.sha256 !== await sha256Hex(bytes)) return { error: 'The signature is for another file' };
+
+  try {
+    await verifyPersonalMessageSignature(messageBytes, signature, { address });
+  } catch {
+    return { error: 'Invalid upload signature' };
+  }
+  return address;
+}
+
+// Corps multipart : file, plus message (base64) et signature du wallet de l'artiste.
+// Stores an uploaded MP3 and returns the blob reference to register on chain
+export async function POST(request: Request) {
+  // Refusé avant de lire le corps ; sans Content-Length la taille n'est pas bornée
+  const length = Number(request.headers.get('content-length'));
+  if (!length) {
+    return NextResponse.json({ error: 'Content-Length required' }, { status: 411 });
+  }
+  if (length > MAX_BLOB_BYTES + MAX_FORM_OVERHEAD_BYTES) {
+    return NextResponse.json({ error: 'File is too large' }, { status: 413 });
+  }
+  const clientAddress = trustedClientAddress(request);
+  if (clientAddress && uploadLimit.remaining(`ip:${clientAddress}`) === 0) {
+    return NextResponse.json({ error: `At most ${uploadLimit.max} uploads per hour` }, { status: 429 });
+  }
+
+  try {
+    const form = await request.formData();
+    const file = form.get('file');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'Missing "file" field' }, { status: 400 });
+    }
+    if (file.type !== 'audio/mpeg' && !file.name.toLowerCase().endsWith('.mp3')) {
+      return NextResponse.json({ error: 'Only MP3 files are accepted' }, { status: 415 });
+    }
+    if (file.size > MAX_BLOB_BYTES) {
+      return NextResponse.json({ error: 'File is too large' }, { status: 413 });
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const uploader = await uploaderAddress(form, bytes);
+    if (typeof uploader !== 'string') {
+      return NextResponse.json({ error: uploader.error }, { status: 401 });
+    }
+    if (uploadLimit.remaining(`wallet:${uploader}`) === 0) {
+      return NextResponse.json({ error: `At most ${uploadLimit.max} uploads per hour` }, { status: 429 });
+    }
+    const rejected = await checkMp3(bytes);
+    if (rejected) {
+      return NextResponse.json({ error: rejected }, { status: 415 });
+    }
+    // Only accepted files count against the quotas
+    uploadLimit.consume(`wallet:${uploader}`);
+    if (clientAddress) uploadLimit.consume(`ip:${clientAddress}`);
+
+    const storage = getBlobStorage();
+    const blobId = await storage.put(bytes, 'audio/mpeg');
+
+    return NextResponse.json({
+      blob_id: blobId,
+      blob_ref: toBlobRef(storage.scheme, blobId),
+    });
+  } catch (error) {
+    console.error('Blob upload failed:', error);
+    return NextResponse.json({
+      error: 'Failed to store blob',
+      details: error instanceof Error ? error.message : String(error),
+    }, { status: 502 });
+  }
+}
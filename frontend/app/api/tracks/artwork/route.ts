@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+
+import { chainFromRequest, invalidChainResponse, isJukeboxConfigured } from '@/lib/serverChain';
+import { isCatalogBlob, isImmutableBlob, readBlobMetadata } from '@/lib/trackIndex';
+
+// Pochette embarquée dans le fichier audio, servie comme une image normale.
+// `?network=`, `?room=` et `?ref=` : seules les pistes du catalogue de la salle sont lues
+export async function GET(request: Request) {
+  const chain = chainFromRequest(request);
+  if (!chain) return invalidChainResponse(request);
+  if (!isJukeboxConfigured(chain)) {
+    return NextResponse.json({ error: `JUKEBOX_OBJECT_ID not configured for ${chain.network}` }, { status: 503 });
+  }
+
+  const ref = new URL(request.url).searchParams.get('ref') ?? '';
+  const registered = await isCatalogBlob(chain, ref).catch((error) => {
+    console.error('Error reading catalog for artwork:', error);
+    return false;
+  });
+  if (!registered) {
+    return NextResponse.json({ error: 'No such track in this room' }, { status: 404 });
+  }
+
+  const { artwork } = await readBlobMetadata(ref);
+  if (!artwork) {
+    return NextResponse.json({ error: 'No artwork for this track' }, { status: 404 });
+  }
+
+  return new NextResponse(artwork.data as BodyInit, {
+    headers: {
+      'Content-Type': artwork.format,
+      'Content-Length': String(artwork.data.byteLength),
+      'Cache-Control': isImmutableBlob(ref)
+        ? 'public, max-age=31536000, immutable'
+        : 'public, max-age=86400',
+    },
+  });
+}
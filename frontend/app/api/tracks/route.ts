@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+
+import { chainFromRequest, invalidChainResponse, isJukeboxConfigured } from '@/lib/serverChain';
+import { buildTrackIndex } from '@/lib/trackIndex';
+
+// Index du catalogue : pistes on-chain + tags et pochettes lus une seule fois côté serveur.
+// `?network=` et `?room=` comme /api/chain/current-track
+export async function GET(request: Request) {
+  const chain = chainFromRequest(request);
+  if (!chain) return invalidChainResponse(request);
+  if (!isJukeboxConfigured(chain)) {
+    return NextResponse.json({ error: `JUKEBOX_OBJECT_ID not configured for ${chain.network}` }, { status: 503 });
+  }
+
+  try {
+    const tracks = await buildTrackIndex(chain);
+    return NextResponse.json({ tracks }, {
+      headers: {
+        // New uploads show up within a minute; tags of known blobs come from memory
+        'Cache-Control': 'public, max-age=30, stale-while-revalidate=300',
+      },
+    });
+  } catch (error) {
+    console.error('Error building track index:', error);
+    return NextResponse.json({
+      error: 'Failed to build track index',
+      details: error instanceof Error ? error.message : String(error),
+    }, { status: 500 });
+  }
+}
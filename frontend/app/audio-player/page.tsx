@@ -2,10 +2,12 @@ import AudioPlayer from '../components/AudioPlayer';
 
 const customPlaylist = [
   {
+    id: 0,
     title: 'Horizon',
     file: 'horizon'
   },
   {
+    id: 1,
     title: 'Inside Out',
     file: 'inside_out'
   }
@@ -1,19 +1,28 @@
 "use client";
 
 import React, {
-  useEffect, useRef, useState, useCallback,
+  useEffect, useRef, useState, useCallback, useMemo,
   forwardRef, useImperativeHandle
 } from 'react';
 import { Howl, Howler } from 'howler';
-import dynamic from 'next/dynamic';
-import { parseBlob } from 'music-metadata';
+import { formatAddress } from '@mysten/sui/utils';
+import { SuiEvent } from '@mysten/sui/client';
+import { useCurrentAccount, useSuiClientContext } from '@mysten/dapp-kit';
+import { useRoomQuery } from '@/hooks/useRoomId';
+import { formatSui, parseSuiToMist } from '@/lib/format';
+import { decodeJukeboxEvent } from '@/lib/jukebox';
+import { SearchEntry } from '@/lib/search';
+import type { TrackIndexEntry } from '@/lib/trackIndex';
+import { audioUrl } from '@/lib/tracks';
+import { useNetworkVariable } from '@/networkConfig';
+import SearchTrack from './SearchTrack';
+import Visualizer, { VISUALIZER_MODES, VisualizerMode } from './Visualizer';
 import './AudioPlayer.css';
 
-const SiriWave = dynamic(() => import('./SiriWave'), { ssr: false });
-
 interface Song {
+  id: number;     // on-chain track ID; titles and files are not unique
   title: string;
-  file: string;   // without extension, e.g. "horizon" -> /audio/horizon.mp3
+  file: string;   // blob reference, resolved with audioUrl() (e.g. "horizon" -> /audio/horizon.mp3)
   howl?: Howl;
 }
 
@@ -21,29 +30,69 @@ interface TrackMeta {
   title?: string;
   artist?: string;
   album?: string;
-  pictureUrl?: string; // object URL created from embedded artwork
+  pictureUrl?: string; // served by /api/tracks/artwork
+}
+
+// Paid request waiting on chain, as pushed by /api/chain/stream
+interface QueueEntry {
+  position: number;
+  track_id: number;
+  title: string | null;
+  requester: string;
+}
+
+// Tip seen on the stream since the page was opened
+interface TipEntry {
+  key: string;      // event id
+  trackId: number;
+  tipper: string;
+  amount: string;   // MIST
+}
+
+// Now-playing snapshot pushed by /api/chain/stream
+interface NowPlayingSnapshot {
+  current_track: number | null;
+  file: string | null;
+  title: string | null;
+  artist: string | null;
+  tips: string | null;   // all-time tips for the current track, MIST
+  skip_voters: string[];
+  skip_threshold: number;
+  started_at_ms: number | null;
+  server_time_ms: number;
+  fee: string;      // request fee in MIST
+  queue: QueueEntry[];
 }
 
 interface AudioPlayerProps {
   playlist?: Song[];
-  onTrackSelect?: (title: string) => void;
+  onTrackSelect?: (trackId: number) => void;
+  onChainEvent?: (event: SuiEvent) => void;
+  onTip?: (trackId: number, amountMist: string) => void;
+  onVoteSkip?: () => void;
+  isFavorite?: (trackId: number) => boolean;
+  onToggleFavorite?: (trackId: number) => void;
   isWaiting?: boolean;
 }
 
 // Methods the parent can call via ref
 export type AudioPlayerHandle = {
-  playByTitle: (title: string) => void;
+  playTrack: (trackId: number) => void;
 };
 
-const defaultPlaylist: Song[] = [
-  { title: 'Horizon', file: 'horizon' },
-  { title: 'skelet',  file: 'inside_out' },
-  { title: 'wax',     file: 'wax' },
-  { title: 'atmosphere', file: 'atmosphere' }
-];
+// Backoff when the now-playing stream drops for good
+const RECONNECT_MIN_MS = 1000;
+const RECONNECT_MAX_MS = 30_000;
+// Listeners further than this from the room position get re-seeked
+const DRIFT_TOLERANCE_S = 0.75;
+const DRIFT_CHECK_MS = 5000;
+// One-click tip amounts, in SUI
+const TIP_PRESETS = ['0.1', '0.5', '1'];
+const TIP_FEED_LENGTH = 5;  // shown for the current track
+const TIP_FEED_KEPT = 50;   // remembered across tracks
 
 const AudioPlayer = forwardRef<AudioPlayerHandle, AudioPlayerProps>(
-({ playlist = defaultPlaylist, onTrackSelect, isWaiting = false }, ref) => {
+({ playlist = [], onTrackSelect, onChainEvent, onTip, onVoteSkip, isFavorite, onToggleFavorite, isWaiting = false }, ref) => {
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
@@ -54,11 +103,23 @@ const AudioPlayer = forwardRef<AudioPlayerHandle, AudioPlayerProps>(
   const [showPlaylist, setShowPlaylist] = useState(false);
   const [showVolume, setShowVolume] = useState(false);
   const [showWave, setShowWave] = useState(false);
+  const [visualizerMode, setVisualizerMode] = useState<VisualizerMode>('wave');
   const [mounted, setMounted] = useState(false);
+  const [upNext, setUpNext] = useState<QueueEntry[]>([]);
+  const [feeMist, setFeeMist] = useState<string | null>(null);
+  // Track the room is on according to the chain, for tipping its artist
+  const [chainTrack, setChainTrack] = useState<{ id: number; artist: string | null; tips: string | null } | null>(null);
+  const [tipFeed, setTipFeed] = useState<TipEntry[]>([]);
+  const [showTip, setShowTip] = useState(false);
+  const [tipInput, setTipInput] = useState('');
+  const [skipTally, setSkipTally] = useState<{ voters: string[]; threshold: number }>({ voters: [], threshold: 0 });
+  const currentAccount = useCurrentAccount();
 
   // metadata state (keyed by song.file)
   const [metaByFile, setMetaByFile] = useState<Record<string, TrackMeta>>({});
-  const createdObjectUrlsRef = useRef<string[]>([]);
+  const { network } = useSuiClientContext();
+  const roomQuery = useRoomQuery(network); // network=…&room=… for the API routes
+  const jukeboxPackageId = useNetworkVariable('jukeboxPackageId');
 
   const waveformRef = useRef<HTMLDivElement>(null);
   const animationRef = useRef<number>();
@@ -66,6 +127,9 @@ const AudioPlayer = forwardRef<AudioPlayerHandle, AudioPlayerProps>(
   const rootRef = useRef<HTMLDivElement>(null);
   const timerIntervalRef = useRef<NodeJS.Timeout>();
   const currentTimeRef = useRef<number>(0);
+  // When the chain track started (chain clock) and how far our clock is from the server's
+  const chainStartedAtRef = useRef<number | null>(null);
+  const clockOffsetRef = useRef<number>(0);
 
   useEffect(() => { setMounted(true); }, []);
   useEffect(() => { playlistRef.current = playlist; }, [playlist]);
@@ -116,31 +180,20 @@ const AudioPlayer = forwardRef<AudioPlayerHandle, AudioPlayerProps>(
     setProgress(0);
   }, []);
 
-  // ---- Metadata extraction (incl. cover art) ----
-  const extractMetadata = useCallback(async (mp3Url: string): Promise<TrackMeta> => {
-    try {
-      const res = await fetch(mp3Url);
-      const blob = await res.blob();
-      const mm = await parseBlob(blob);
-
-      const pic = mm.common.picture?.[0];
-      let pictureUrl: string | undefined;
-      if (pic?.data) {
-        const coverBlob = new Blob([pic.data], { type: pic.format || 'image/jpeg' });
-        pictureUrl = URL.createObjectURL(coverBlob);
-        createdObjectUrlsRef.current.push(pictureUrl);
-      }
+  // ---- Room position (everyone hears the same second) ----
+  const syncToChain = useCallback((sound: Howl) => {
+    const startedAt = chainStartedAtRef.current;
+    if (startedAt === null) return;
 
-      return {
-        title: mm.common.title,
-        artist: mm.common.artist,
-        album: mm.common.album,
-        pictureUrl
-      };
-    } catch (e) {
-      console.warn('Metadata parse failed for', mp3Url, e);
-      return {};
+    const expected = Math.max(0, (Date.now() + clockOffsetRef.current - startedAt) / 1000);
+    // Joined after the end: the next chain update will switch tracks
+    if (sound.duration() && expected >= sound.duration()) return;
+
+    if (Math.abs((sound.seek() as number) - expected) > DRIFT_TOLERANCE_S) {
+      sound.seek(expected);
     }
+    currentTimeRef.current = Math.floor(expected);
+    setTimer(formatTime(currentTimeRef.current));
   }, []);
 
   // ---- Color helpers for artwork-driven theme ----
@@ -205,27 +258,29 @@ const AudioPlayer = forwardRef<AudioPlayerHandle, AudioPlayerProps>(
   }
   const rgbString = (c: {r:number;g:number;b:number}) => `rgb(${c.r}, ${c.g}, ${c.b})`;
 
-  // ---- Load metadata for playlist ----
+  // ---- Load metadata for playlist (parsed once on the server, see /api/tracks) ----
   useEffect(() => {
     let cancelled = false;
 
-    // revoke previously created artwork URLs (prevents leaks when playlist changes)
-    createdObjectUrlsRef.current.forEach(u => URL.revokeObjectURL(u));
-    createdObjectUrlsRef.current = [];
-
     (async () => {
-      const entries: Record<string, TrackMeta> = {};
-      for (const s of playlistRef.current) {
-        const url = `/audio/${s.file}.mp3`;
-        const m = await extractMetadata(url);
+      try {
+        const res = await fetch(`/api/tracks?${roomQuery}`);
+        if (!res.ok) throw new Error(`/api/tracks responded ${res.status}`);
+        const { tracks } = (await res.json()) as { tracks: TrackIndexEntry[] };
         if (cancelled) return;
-        entries[s.file] = m;
+
+        const entries: Record<string, TrackMeta> = {};
+        for (const t of tracks) {
+          entries[t.blobId] = { ...t.tags, pictureUrl: t.artworkUrl ?? undefined };
+        }
+        setMetaByFile(entries);
+      } catch (e) {
+        console.warn('Track index unavailable:', e);
       }
-      if (!cancelled) setMetaByFile(entries);
     })();
 
     return () => { cancelled = true; };
-  }, [playlist, extractMetadata]);
+  }, [playlist, roomQuery]);
 
   // ---- Play controls ----
   const play = useCallback((index?: number) => {
@@ -238,8 +293,10 @@ const AudioPlayer = forwardRef<AudioPlayerHandle, AudioPlayerProps>(
     if (!sound) {
       setIsLoading(true);
       sound = data.howl = new Howl({
-        src: [`/audio/${data.file}.mp3`],
+        src: [audioUrl(data.file)],
+        format: ['mp3'], // uploaded blobs are served without a file extension
         onplay: () => {
+          syncToChain(sound!);
           setDuration(formatTime(Math.round(sound!.duration())));
           setIsPlaying(true);
           setIsLoading(false);
@@ -256,7 +313,7 @@ const AudioPlayer = forwardRef<AudioPlayerHandle, AudioPlayerProps>(
           setShowWave(false);
           stopTimer();
           resetTimer();
-          skip('next');
+          // The chain queue decides what plays next (pushed by the stream)
         },
         onstop: () => {
           setIsPlaying(false);
@@ -282,13 +339,6 @@ const AudioPlayer = forwardRef<AudioPlayerHandle, AudioPlayerProps>(
   }, [currentIndex]);
 
 
-  const skip = useCallback((direction: 'next' | 'prev') => {
-    let index = direction === 'prev' ? currentIndex - 1 : currentIndex + 1;
-    if (index < 0) index = playlistRef.current.length - 1;
-    if (index >= playlistRef.current.length) index = 0;
-    skipTo(index);
-  }, [currentIndex]);
-
   const skipTo = useCallback((index: number) => {
     const currentSound = playlistRef.current[currentIndex]?.howl;
     if (currentSound) currentSound.stop();
@@ -306,6 +356,9 @@ const AudioPlayer = forwardRef<AudioPlayerHandle, AudioPlayerProps>(
 
   const togglePlaylist = () => setShowPlaylist(!showPlaylist);
   const toggleVolume   = () => setShowVolume(!showVolume);
+  const cycleVisualizer = () => setVisualizerMode(
+    m => VISUALIZER_MODES[(VISUALIZER_MODES.indexOf(m) + 1) % VISUALIZER_MODES.length]
+  );
 
 
   const handleVolumeClick = (e: React.MouseEvent<HTMLDivElement>) => {
@@ -327,30 +380,38 @@ const AudioPlayer = forwardRef<AudioPlayerHandle, AudioPlayerProps>(
       if (animationRef.current) cancelAnimationFrame(animationRef.current);
       if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
       playlistRef.current.forEach(s => s.howl?.unload());
-      createdObjectUrlsRef.current.forEach(u => URL.revokeObjectURL(u));
-      createdObjectUrlsRef.current = [];
     };
   }, []);
 
-  // ---- playByTitle (exposed to parent) ----
-  const playByTitle = useCallback((title: string) => {
-    const index = playlistRef.current.findIndex(
-      s => s.title.toLowerCase() === title.toLowerCase()
-    );
+  // ---- playTrack (exposed to parent) ----
+  const playTrack = useCallback((trackId: number) => {
+    const index = playlistRef.current.findIndex(s => s.id === trackId);
     if (index !== -1) {
       skipTo(index);
     } else {
-      console.warn(`Track with title "${title}" not found in playlist`);
+      console.warn(`Track #${trackId} not found in playlist`);
     }
   }, [skipTo]);
 
-  useImperativeHandle(ref, () => ({ playByTitle }), [playByTitle]);
+  useImperativeHandle(ref, () => ({ playTrack }), [playTrack]);
 
   const currentSong = playlistRef.current[currentIndex];
   const currentMeta: TrackMeta | undefined = currentSong ? metaByFile[currentSong.file] : undefined;
   const displayTitle = currentMeta?.title || currentSong?.title || '';
   const displayArtist = currentMeta?.artist;
 
+  // Catalog titles (what the chain knows) plus the tags read from each file
+  const searchEntries = useMemo<(SearchEntry & { index: number })[]>(
+    () => playlist.map((song, index) => ({
+      key: String(song.id),
+      index,
+      title: song.title,
+      artist: metaByFile[song.file]?.artist,
+      album: metaByFile[song.file]?.album,
+    })),
+    [playlist, metaByFile]
+  );
+
   // ---- Recolor UI from artwork ----
   useEffect(() => {
     const artwork = currentMeta?.pictureUrl;
@@ -386,92 +447,119 @@ const AudioPlayer = forwardRef<AudioPlayerHandle, AudioPlayerProps>(
     })();
   }, [currentMeta?.pictureUrl]);
 
-  // ====== CHAIN POLLING: reload every 5000ms and switch track if it changed ======
-
-  // Replace this with your actual chain query.
-  // Return a stable key to identify the track, ideally the `file` slug; title as fallback.
-// Fetch current track from SUI blockchain via Next.js API
-  async function fetchCurrentTrackFromChain(): Promise<{ file?: string; title?: string } | null> {
-    try {
-      const res = await fetch("/api/chain/current-track", {
-        cache: "no-store",
-        headers: { 'Cache-Control': 'no-cache' }
-      });
-
-      if (!res.ok) {
-        console.warn('Chain API response not ok:', res.status);
-        return null;
-      }
-
-      const data = await res.json();
-
-      if (data.error) {
-        console.warn('Chain API error:', data.error);
-        return null;
-      }
-
-      // Return the track data from blockchain
-      return {
-        title: data.current_track || data.title,
-        file: data.file
-      };
-    } catch (error) {
-      console.warn('fetchCurrentTrackFromChain failed:', error);
-      return null;
-    }
-  }
+  // ====== CHAIN SYNC: follow the server's now-playing stream and switch track if it changed ======
 
   // Keep last seen on-chain choice to detect changes.
   const lastChainTrackRef = useRef<string | null>(null);
+  // Snapshot whose track is not in the playlist yet (catalog still loading)
+  const pendingSnapshotRef = useRef<NowPlayingSnapshot | null>(null);
+  const onChainEventRef = useRef(onChainEvent);
+  useEffect(() => { onChainEventRef.current = onChainEvent; }, [onChainEvent]);
+
+  const applySnapshot = useCallback((now: NowPlayingSnapshot) => {
+    setUpNext(now.queue ?? []);
+    setFeeMist(now.fee ?? null);
+    setChainTrack(now.current_track === null ? null : { id: now.current_track, artist: now.artist, tips: now.tips });
+    setSkipTally({ voters: now.skip_voters ?? [], threshold: now.skip_threshold ?? 0 });
+
+    // Pushed right away, so transit time is negligible next to the drift tolerance
+    clockOffsetRef.current = now.server_time_ms - Date.now();
+
+    if (now.current_track === null) return;
+
+    // The same track can be requested twice in a row: key plays by start time
+    const playKey = `${now.current_track}@${now.started_at_ms ?? ''}`;
+    if (playKey === lastChainTrackRef.current) return;
+
+    // By track ID: the same title or blob can be registered more than once
+    const idx = playlistRef.current.findIndex(s => s.id === now.current_track);
+    // Not in the playlist yet: retried when the playlist changes
+    if (idx === -1) {
+      pendingSnapshotRef.current = now;
+      return;
+    }
 
-  useEffect(() => {
-    let cancelled = false;
-
-    const tick = async () => {
-      try {
-        const now = await fetchCurrentTrackFromChain();
-        if (cancelled || !now) return;
-
-        const key = now.file || now.title;
-        if (!key) return;
+    pendingSnapshotRef.current = null;
+    lastChainTrackRef.current = playKey;
+    chainStartedAtRef.current = now.started_at_ms;
+    skipTo(idx);
+  }, [skipTo]);
 
-        if (key !== lastChainTrackRef.current) {
-          lastChainTrackRef.current = key;
+  const applySnapshotRef = useRef(applySnapshot);
+  useEffect(() => { applySnapshotRef.current = applySnapshot; }, [applySnapshot]);
 
-          // Try match by file first
-          const byFileIdx = playlistRef.current.findIndex(s => s.file === key);
-          if (byFileIdx !== -1) {
-            skipTo(byFileIdx);
-            return;
-          }
+  useEffect(() => {
+    let source: EventSource | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let retryDelay = RECONNECT_MIN_MS;
+    let closed = false;
 
-          // Fallback: match by title (case-insensitive)
-          const byTitleIdx = playlistRef.current.findIndex(
-            s => s.title.toLowerCase() === key.toLowerCase()
-          );
-          if (byTitleIdx !== -1) {
-            skipTo(byTitleIdx);
-            return;
-          }
+    const connect = () => {
+      source = new EventSource(`/api/chain/stream?${roomQuery}`);
 
-          // Optional: if not found locally, refresh playlist from server here.
+      source.addEventListener('open', () => { retryDelay = RECONNECT_MIN_MS; });
+      source.addEventListener('now-playing', (e) => {
+        applySnapshotRef.current(JSON.parse((e as MessageEvent).data));
+      });
+      source.addEventListener('jukebox-event', (e) => {
+        const event: SuiEvent = JSON.parse((e as MessageEvent).data);
+        const decoded = decodeJukeboxEvent(event, jukeboxPackageId);
+        if (decoded?.kind === 'Tipped') {
+          const tip = {
+            key: `${event.id.txDigest}:${event.id.eventSeq}`,
+            trackId: Number(decoded.json.track_id),
+            tipper: decoded.json.tipper,
+            amount: decoded.json.amount,
+          };
+          setTipFeed(feed => [tip, ...feed].slice(0, TIP_FEED_KEPT));
         }
-      } catch (e) {
-        console.warn("Chain poll failed:", e);
-      }
+        onChainEventRef.current?.(event);
+      });
+      source.addEventListener('error', () => {
+        // The browser retries by itself unless the stream was closed for good
+        if (closed || source?.readyState !== EventSource.CLOSED) return;
+        console.warn(`Chain stream closed, reconnecting in ${retryDelay} ms`);
+        retryTimer = setTimeout(connect, retryDelay);
+        retryDelay = Math.min(retryDelay * 2, RECONNECT_MAX_MS);
+      });
     };
 
-    // Run immediately, then every 5 seconds
-    tick();
-    const id = setInterval(tick, 5000);
+    connect();
 
     return () => {
-      cancelled = true;
-      clearInterval(id);
+      closed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      source?.close();
     };
-  }, [playlist, skipTo]);
+  }, [roomQuery, jukeboxPackageId]);
 
-  // ====== /CHAIN POLLING ======
+  // A new playlist may contain the track the last snapshot could not find
+  useEffect(() => {
+    if (pendingSnapshotRef.current) applySnapshotRef.current(pendingSnapshotRef.current);
+  }, [playlist]);
+
+  // Correct drift (buffering, background tabs) while playing
+  useEffect(() => {
+    const id = setInterval(() => {
+      const sound = playlistRef.current[currentIndex]?.howl;
+      if (sound?.playing()) syncToChain(sound);
+    }, DRIFT_CHECK_MS);
+    return () => clearInterval(id);
+  }, [currentIndex, syncToChain]);
+
+  // ====== /CHAIN SYNC ======
+
+  const currentTips = tipFeed.filter(t => t.trackId === chainTrack?.id).slice(0, TIP_FEED_LENGTH);
+
+  const hasVoted = Boolean(currentAccount && skipTally.voters.includes(currentAccount.address));
+
+  const sendTip = (amountSui: string) => {
+    const amountMist = parseSuiToMist(amountSui);
+    if (!onTip || !chainTrack || !amountMist || amountMist === '0') return;
+    onTip(chainTrack.id, amountMist);
+    setShowTip(false);
+    setTipInput('');
+  };
 
   return (
     <div className="audio-player" ref={rootRef}>
@@ -510,17 +598,14 @@ const AudioPlayer = forwardRef<AudioPlayerHandle, AudioPlayerProps>(
       </div>
 
       {/* Progress / Wave */}
-      <div className="audio-player__waveform" ref={waveformRef}>
+      <div
+        className="audio-player__waveform"
+        ref={waveformRef}
+        onClick={cycleVisualizer}
+        title={`Visualizer: ${visualizerMode} (click to switch)`}
+      >
         {showWave && mounted ? (
-          <SiriWave
-            width={typeof window !== 'undefined' ? window.innerWidth : 0}
-            height={typeof window !== 'undefined' ? window.innerHeight * 0.3 : 0}
-            cover
-            speed={0.03}
-            amplitude={0.7}
-            frequency={2}
-            autostart
-          />
+          <Visualizer mode={visualizerMode} />
         ) : (
           <div className="audio-player__bar">
             <div className="audio-player__progress" style={{ width: `${progress}%` }} />
@@ -528,35 +613,106 @@ const AudioPlayer = forwardRef<AudioPlayerHandle, AudioPlayerProps>(
         )}
       </div>
 
-      {/* Playlist */}
+      {/* Up next (paid requests waiting on chain) */}
+      {upNext.length > 0 && (
+        <div className="audio-player__queue">
+          <div className="audio-player__queue-title">Up next</div>
+          {upNext.map(r => (
+            <div key={r.position} className="audio-player__queue-item">
+              <span className="audio-player__queue-pos">{r.position}</span>
+              <span className="audio-player__queue-track">{r.title ?? `Track #${r.track_id}`}</span>
+              <span className="audio-player__queue-by">{formatAddress(r.requester)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Tips for the artist of the track the room is on, and the skip vote on this play */}
+      {chainTrack && (
+        <div className="audio-player__tips">
+          <div className="audio-player__queue-title">
+            Tips {chainTrack.tips !== null && <span>· {formatSui(chainTrack.tips)}</span>}
+          </div>
+          {currentTips.map(t => (
+            <div key={t.key} className="audio-player__queue-item">
+              <span className="audio-player__queue-track">{formatSui(t.amount)}</span>
+              <span className="audio-player__queue-by">{formatAddress(t.tipper)}</span>
+            </div>
+          ))}
+          {onTip && !showTip && (
+            <button
+              className="audio-player__tip-btn"
+              disabled={isWaiting}
+              onClick={() => setShowTip(true)}
+              title={chainTrack.artist ? `Send SUI to ${chainTrack.artist}` : undefined}
+            >
+              Tip the artist
+            </button>
+          )}
+          {onTip && showTip && (
+            <div className="audio-player__tip-form">
+              {TIP_PRESETS.map(amount => (
+                <button key={amount} className="audio-player__tip-btn" disabled={isWaiting} onClick={() => sendTip(amount)}>
+                  {amount} SUI
+                </button>
+              ))}
+              <input
+                className="audio-player__tip-input"
+                value={tipInput}
+                onChange={(e) => setTipInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') sendTip(tipInput);
+                  if (e.key === 'Escape') setShowTip(false);
+                }}
+                placeholder="Other"
+                inputMode="decimal"
+              />
+            </div>
+          )}
+          {skipTally.threshold > 0 && (
+            <button
+              className="audio-player__tip-btn audio-player__skip-btn"
+              disabled={isWaiting || hasVoted || !onVoteSkip}
+              onClick={() => onVoteSkip?.()}
+              title="The play ends early once enough listeners vote"
+            >
+              {hasVoted ? 'Voted to skip' : 'Vote to skip'} · {skipTally.voters.length}/{skipTally.threshold}
+            </button>
+          )}
+          {onToggleFavorite && (
+            <button className="audio-player__tip-btn audio-player__star-btn" onClick={() => onToggleFavorite(chainTrack.id)}>
+              {isFavorite?.(chainTrack.id) ? '★ In my favorites' : '☆ Add to favorites'}
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Playlist: fuzzy search over the catalog, a pick goes through the request flow */}
       {showPlaylist && (
         <div className="audio-player__playlist" onClick={togglePlaylist}>
-          <div className="audio-player__list">
-            {playlistRef.current.map((song, i) => (
-              <div
-                key={i}
-                className={`audio-player__list-song ${isWaiting ? 'waiting' : ''}`}
-                onClick={(e) => {
-                  e.stopPropagation();
-                  if (onTrackSelect && !isWaiting) {
-                    // Lancer la transaction blockchain pour changer de track
-                    onTrackSelect(song.title);
-                  } else if (!onTrackSelect) {
-                    // Mode local uniquement (fallback)
-                    skipTo(i);
-                  }
-                  setShowPlaylist(false);
-                }}
-                style={{
-                  opacity: isWaiting ? 0.5 : 1,
-                  cursor: isWaiting ? 'not-allowed' : 'pointer'
-                }}
-              >
-                {metaByFile[song.file]?.title || song.title}
-                {isWaiting && i === currentIndex && <span> (⏳ Transaction en cours...)</span>}
-              </div>
-            ))}
-          </div>
+          <SearchTrack
+            className="audio-player__search"
+            entries={searchEntries}
+            disabled={isWaiting}
+            autoFocus
+            onCancel={() => setShowPlaylist(false)}
+            onSelect={(entry) => {
+              if (onTrackSelect) {
+                // Lancer la transaction blockchain pour changer de track
+                onTrackSelect(playlist[entry.index].id);
+              } else {
+                // Mode local uniquement (fallback)
+                chainStartedAtRef.current = null;
+                skipTo(entry.index);
+              }
+              setShowPlaylist(false);
+            }}
+            renderDetail={() =>
+              onTrackSelect && feeMist !== null && (
+                <span className="audio-player__list-fee">{formatSui(feeMist)}</span>
+              )
+            }
+          />
         </div>
       )}
 
@@ -2,6 +2,7 @@
 
 import * as React from "react";
 import Link from "next/link";
+import { usePathname } from "next/navigation";
 import { ConnectButton } from "@mysten/dapp-kit";
 import {
   NavigationMenu,
@@ -12,34 +13,59 @@ import {
   NavigationMenuTrigger,
   navigationMenuTriggerStyle,
 } from "./ui/navigation-menu";
+import { roomPath } from "@/lib/rooms";
 
+// Paths relative to the current room (see roomPath)
 const components: { title: string; href: string; description: string }[] = [
   {
-    title: "Counter",
-    href: "/counter",
-    description: "View and interact with the counter component.",
+    title: "Upload",
+    href: "/upload",
+    description: "Upload an MP3 and register it in the jukebox catalog.",
   },
   {
-    title: "Create Counter",
-    href: "/create",
-    description: "Create a new counter instance on the blockchain.",
+    title: "History",
+    href: "/history",
+    description: "Every paid request: track, buyer, amount and transaction.",
   },
   {
-    title: "About",
-    href: "/about",
-    description: "Learn more about this counter application.",
+    title: "Leaderboard",
+    href: "/leaderboard",
+    description: "Top requesters by day, week and all time, and the most requested tracks.",
+  },
+  {
+    title: "Passes",
+    href: "/passes",
+    description: "Prepaid request credits and unlimited passes for this room.",
+  },
+  {
+    title: "My library",
+    href: "/library",
+    description: "Your favorite tracks and playlists, saved for your wallet.",
+  },
+  {
+    title: "My receipts",
+    href: "/my-receipts",
+    description: "Collectible receipts of your plays, with the track's cover art.",
+  },
+  {
+    title: "Admin",
+    href: "/admin",
+    description: "Fee, revenue split, pause and ownership (AdminCap holders only).",
   },
 ];
 
 export default function Navbar() {
+  // Inside /room/[id], links stay in that room
+  const roomId = /^\/room\/([^/]+)/.exec(usePathname() ?? "")?.[1] ?? null;
+
   return (
-    <NavigationMenu className="max-w-full justify-between p-4 bg-white border-b border-gray-200">
+    <NavigationMenu className="max-w-full h-16 justify-between px-4 bg-white border-b border-gray-200">
       <NavigationMenuList className="flex w-full justify-between items-center">
         <div className="flex items-center space-x-6">
           <NavigationMenuItem>
             <NavigationMenuLink asChild>
               <Link href="/" className="flex items-center space-x-2 font-semibold text-lg text-gray-900">
-                Counter App
+                Jukebox
               </Link>
             </NavigationMenuLink>
           </NavigationMenuItem>
@@ -52,13 +78,13 @@ export default function Navbar() {
                   <NavigationMenuLink asChild>
                     <Link
                       className="flex h-full w-full select-none flex-col justify-end rounded-md bg-gradient-to-b from-slate-50 to-slate-100 p-6 no-underline outline-none focus:shadow-md"
-                      href="/"
+                      href={roomPath(roomId)}
                     >
                       <div className="mb-2 mt-4 text-lg font-medium text-gray-900">
-                        Counter App
+                        Jukebox
                       </div>
                       <p className="text-sm leading-tight text-slate-600">
-                        A beautiful counter application built with Next.js and Tailwind CSS.
+                        Everyone listens to the same track. Pay some SUI to pick the next one.
                       </p>
                     </Link>
                   </NavigationMenuLink>
@@ -67,7 +93,7 @@ export default function Navbar() {
                   <ListItem
                     key={component.title}
                     title={component.title}
-                    href={component.href}
+                    href={roomPath(roomId, component.href)}
                   >
                     {component.description}
                   </ListItem>
@@ -78,7 +104,13 @@ export default function Navbar() {
 
           <NavigationMenuItem>
             <NavigationMenuLink asChild className={navigationMenuTriggerStyle()}>
-              <Link href="/" className="text-gray-900">Home</Link>
+              <Link href={roomPath(roomId)} className="text-gray-900">Player</Link>
+            </NavigationMenuLink>
+          </NavigationMenuItem>
+
+          <NavigationMenuItem>
+            <NavigationMenuLink asChild className={navigationMenuTriggerStyle()}>
+              <Link href="/rooms" className="text-gray-900">Rooms</Link>
             </NavigationMenuLink>
           </NavigationMenuItem>
         </div>
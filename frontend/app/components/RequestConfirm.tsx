@@ -0,0 +1,159 @@
+// components/RequestConfirm.tsx
+"use client";
+
+import React from "react";
+import { formatAddress } from "@mysten/sui/utils";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { formatSui } from "@/lib/format";
+import { ListenerPass } from "@/lib/jukebox";
+import { computeSplit, SplitConfig } from "@/lib/split";
+import { Track } from "@/lib/tracks";
+import { TxPreview } from "@/lib/txPreview";
+
+type RequestConfirmProps = {
+  track: Track;
+  feeMist: number;
+  split: SplitConfig;
+  isWaiting?: boolean;
+  isConnected?: boolean;
+  preview?: TxPreview | { error: string };  // dry run, once available
+  previewPending?: boolean;
+  sponsorRemaining?: number | null; // sponsored requests left today; undefined when nobody pays gas
+  sponsored?: boolean;
+  onSponsoredChange?: (sponsored: boolean) => void;
+  pass?: ListenerPass | null;       // a pass of this room usable right now
+  usePass?: boolean;
+  onUsePassChange?: (usePass: boolean) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+};
+
+// Shown before the wallet prompt: what the listener pays, who receives it,
+// and (once connected) the simulated gas and balance
+const RequestConfirm: React.FC<RequestConfirmProps> = ({
+  track,
+  feeMist,
+  split,
+  isWaiting = false,
+  isConnected = true,
+  preview,
+  previewPending = false,
+  sponsorRemaining,
+  sponsored = false,
+  onSponsoredChange,
+  pass,
+  usePass = false,
+  onUsePassChange,
+  onConfirm,
+  onCancel
+}) => {
+  const paying = usePass && pass ? pass : null;
+  // A credit was paid at the fee of its day; unlimited passes pay nothing per request
+  const paidMist = paying ? (paying.expiresAtMs === null ? Number(paying.creditValueMist) : 0) : feeMist;
+  const amounts = computeSplit(paidMist, split);
+  const previewError = preview && "error" in preview ? preview.error : null;
+  const cost = preview && !("error" in preview) ? preview : null;
+  const canPay = !isConnected || (cost !== null && !previewPending);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={onCancel}>
+      <Card className="w-full max-w-sm bg-white text-black" onClick={(e) => e.stopPropagation()}>
+        <CardHeader>
+          <CardTitle>Request “{track.title}”</CardTitle>
+          <CardDescription>
+            {!paying && <>You pay {formatSui(feeMist)}, split as follows.</>}
+            {paying?.expiresAtMs === null && <>One credit of your pass ({formatSui(paidMist)}), split as follows.</>}
+            {paying && paying.expiresAtMs !== null && <>Included in your unlimited pass.</>}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {paidMist > 0 && <dl className="grid grid-cols-[1fr_auto] gap-y-1 text-sm">
+            <dt>Artist ({formatAddress(track.artist)})</dt>
+            <dd className="text-right">{formatSui(amounts.artist)}</dd>
+            {split.curator && (
+              <>
+                <dt>Curator ({formatAddress(split.curator)})</dt>
+                <dd className="text-right">{formatSui(amounts.curator)}</dd>
+              </>
+            )}
+            <dt>Jukebox</dt>
+            <dd className="text-right">{formatSui(amounts.platform)}</dd>
+          </dl>}
+
+          <dl className="mt-4 grid grid-cols-[1fr_auto] gap-y-1 border-t pt-3 text-sm">
+            {paying ? (
+              <>
+                <dt>Pass</dt>
+                <dd className="text-right">
+                  {paying.expiresAtMs === null
+                    ? `${paying.credits - 1} credit${paying.credits === 2 ? "" : "s"} left after this`
+                    : `Until ${new Date(paying.expiresAtMs).toLocaleTimeString()}`}
+                </dd>
+              </>
+            ) : (
+              <>
+                <dt>Request fee</dt>
+                <dd className="text-right">{formatSui(feeMist)}</dd>
+              </>
+            )}
+            {cost && paying && (
+              <>
+                <dt>Estimated gas</dt>
+                <dd className="text-right">{formatSui(String(cost.gasCostMist))}</dd>
+              </>
+            )}
+            {cost && sponsored && !paying && (
+              <>
+                <dt>Gas</dt>
+                <dd className="text-right">Paid by the jukebox</dd>
+                <dt>Balance after</dt>
+                <dd className="text-right">{formatSui(String(cost.balanceAfterMist))}</dd>
+              </>
+            )}
+            {cost && !sponsored && !paying && (
+              <>
+                <dt>Estimated gas</dt>
+                <dd className="text-right">{formatSui(String(cost.gasCostMist))}</dd>
+                <dt>Change refunded</dt>
+                <dd className="text-right">{formatSui(String(cost.refundMist))}</dd>
+                <dt>Balance after</dt>
+                <dd className="text-right">{formatSui(String(cost.balanceAfterMist))}</dd>
+              </>
+            )}
+          </dl>
+          {isConnected && pass && (
+            <label className="mt-3 flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={usePass} onChange={(e) => onUsePassChange?.(e.target.checked)} />
+              {pass.expiresAtMs === null ? `Use a credit (${pass.credits} left)` : "Use my unlimited pass"}
+            </label>
+          )}
+          {isConnected && sponsorRemaining !== undefined && !paying && (
+            <label className="mt-3 flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={sponsored}
+                disabled={sponsorRemaining === 0}
+                onChange={(e) => onSponsoredChange?.(e.target.checked)}
+              />
+              Let the jukebox pay gas
+              {sponsorRemaining !== null && <span className="text-slate-600">({sponsorRemaining} left today)</span>}
+            </label>
+          )}
+          {!isConnected && <p className="mt-2 text-sm text-slate-600">Connect a wallet to see gas and your balance.</p>}
+          {isConnected && previewPending && <p className="mt-2 text-sm text-slate-600">Simulating the transaction…</p>}
+          {previewError && <p className="mt-2 text-sm text-red-600">{previewError}</p>}
+        </CardContent>
+        <CardFooter className="justify-end gap-2">
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={onConfirm} disabled={isWaiting || !canPay}>
+            {isWaiting ? "Waiting…" : !isConnected ? "Connect wallet" : paying ? "Use pass & request" : "Pay & request"}
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+};
+
+export default RequestConfirm;
@@ -0,0 +1,10 @@
+"use client";
+
+import React from "react";
+
+import { RoomContext } from "@/hooks/useRoomId";
+
+// Points every jukebox hook and page below it at one room
+export default function RoomProvider({ roomId, children }: { roomId: string; children: React.ReactNode }) {
+  return <RoomContext.Provider value={roomId}>{children}</RoomContext.Provider>;
+}
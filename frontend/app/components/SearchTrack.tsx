@@ -1,64 +1,113 @@
 // components/SearchTrack.tsx
 "use client";
 
-import React, { useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 
-type SearchTrackProps = {
-  onSearch: (query: string) => void;
+import { searchCatalog, SearchEntry } from "@/lib/search";
+
+type SearchTrackProps<T extends SearchEntry> = {
+  entries: T[];                        // only catalog tracks can be picked
+  onSelect: (entry: T) => void;
+  onCancel?: () => void;               // Escape
+  renderDetail?: (entry: T) => React.ReactNode; // shown at the end of each result
+  disabled?: boolean;
   placeholder?: string;
-  defaultValue?: string;
+  autoFocus?: boolean;
   className?: string; // optional for styling hooks
 };
 
-const SearchTrack: React.FC<SearchTrackProps> = ({
-  onSearch,
-  placeholder = "Search track by title…",
-  defaultValue = "",
+function SearchTrack<T extends SearchEntry>({
+  entries,
+  onSelect,
+  onCancel,
+  renderDetail,
+  disabled = false,
+  placeholder = "Search by title, artist or album…",
+  autoFocus = false,
   className = ""
-}) => {
-  const [value, setValue] = useState(defaultValue);
+}: SearchTrackProps<T>) {
+  const [query, setQuery] = useState("");
+  const [active, setActive] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const results = useMemo(() => searchCatalog(entries, query), [entries, query]);
+
+  // New results: highlight the best match again
+  useEffect(() => { setActive(0); }, [query, entries]);
+
+  // Keep the highlighted result visible while navigating with the keyboard
+  useEffect(() => {
+    listRef.current?.children[active]?.scrollIntoView({ block: "nearest" });
+  }, [active]);
 
-  const trigger = () => {
-    onSearch(value.trim());
+  const pick = (index: number) => {
+    const result = results[index];
+    if (result && !disabled) onSelect(result.entry);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        setActive((i) => Math.min(i + 1, results.length - 1));
+        break;
+      case "ArrowUp":
+        e.preventDefault();
+        setActive((i) => Math.max(i - 1, 0));
+        break;
+      case "Enter":
+        e.preventDefault();
+        pick(active);
+        break;
+      case "Escape":
+        if (query) setQuery("");
+        else onCancel?.();
+        break;
+    }
   };
 
   return (
-    <div className={`search-track ${className}`} style={{ display: "flex", gap: 8, alignItems: "center" }}>
+    <div className={`search-track ${className}`} onClick={(e) => e.stopPropagation()}>
       <input
         type="text"
-        value={value}
-        onChange={(e) => setValue(e.target.value)}
-        onKeyDown={(e) => {
-          if (e.key === "Enter") trigger();
-        }}
+        role="combobox"
+        aria-expanded={results.length > 0}
+        aria-controls="search-track-results"
+        aria-activedescendant={results[active] ? `search-track-${results[active].entry.key}` : undefined}
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        onKeyDown={handleKeyDown}
         placeholder={placeholder}
+        autoFocus={autoFocus}
         className="search-track__input"
-        style={{
-          flex: 1,
-          padding: "8px 12px",
-          border: "1px solid #ccc",
-          borderRadius: 8,
-          outline: "none"
-        }}
       />
-      <button
-        type="button"
-        onClick={trigger}
-        className="search-track__btn"
-        aria-label="Search"
-        title="Search"
-        style={{
-          padding: "8px 12px",
-          borderRadius: 8,
-          border: "1px solid #ccc",
-          background: "white",
-          cursor: "pointer"
-        }}
-      >
-        🔎
-      </button>
+      <ul id="search-track-results" role="listbox" ref={listRef} className="search-track__results">
+        {results.map(({ entry }, i) => (
+          <li
+            key={entry.key}
+            id={`search-track-${entry.key}`}
+            role="option"
+            aria-selected={i === active}
+            aria-disabled={disabled}
+            className={`search-track__result ${i === active ? "active" : ""} ${disabled ? "waiting" : ""}`}
+            onMouseEnter={() => setActive(i)}
+            onClick={() => pick(i)}
+          >
+            <span className="search-track__title">{entry.title}</span>
+            {(entry.artist || entry.album) && (
+              <span className="search-track__meta">
+                {[entry.artist, entry.album].filter(Boolean).join(" · ")}
+              </span>
+            )}
+            {renderDetail?.(entry)}
+          </li>
+        ))}
+        {results.length === 0 && (
+          <li className="search-track__empty">No track in the catalog matches “{query}”.</li>
+        )}
+      </ul>
     </div>
   );
-};
+}
 
 export default SearchTrack;
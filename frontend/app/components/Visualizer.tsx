@@ -0,0 +1,139 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import dynamic from 'next/dynamic';
+
+import { getHowlerAnalyser } from '@/lib/audioAnalyser';
+
+const SiriWave = dynamic(() => import('./SiriWave'), { ssr: false });
+
+export type VisualizerMode = 'wave' | 'spectrum' | 'radial';
+
+export const VISUALIZER_MODES: VisualizerMode[] = ['wave', 'spectrum', 'radial'];
+
+interface VisualizerProps {
+  mode?: VisualizerMode;
+}
+
+const SPECTRUM_BARS = 64;
+const RADIAL_BARS = 96;
+// Re-read the artwork colour from CSS this often, not on every frame
+const COLOR_REFRESH_MS = 500;
+
+// Groups FFT bins into `count` bands, wider towards the highs (closer to how we hear)
+function bands(data: Uint8Array, count: number): number[] {
+  const usable = Math.floor(data.length * 0.75); // the top bins are mostly empty
+  const out: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const from = Math.floor(Math.pow(usable, i / count));
+    const to = Math.max(from + 1, Math.floor(Math.pow(usable, (i + 1) / count)));
+    let sum = 0;
+    for (let j = from; j < to; j++) sum += data[j];
+    out.push(sum / (to - from) / 255);
+  }
+  return out;
+}
+
+// `data` is time-domain samples for the wave, frequency levels for the other modes
+function drawWave(ctx: CanvasRenderingContext2D, data: Uint8Array, w: number, h: number) {
+  ctx.lineWidth = 2 * (window.devicePixelRatio || 1);
+  ctx.beginPath();
+  for (let i = 0; i < data.length; i++) {
+    const x = (i / (data.length - 1)) * w;
+    const y = h / 2 + ((data[i] - 128) / 128) * (h / 2);
+    if (i === 0) ctx.moveTo(x, y);
+    else ctx.lineTo(x, y);
+  }
+  ctx.stroke();
+}
+
+function drawSpectrum(ctx: CanvasRenderingContext2D, data: Uint8Array, w: number, h: number) {
+  const levels = bands(data, SPECTRUM_BARS);
+  const slot = w / SPECTRUM_BARS;
+  levels.forEach((level, i) => {
+    const barHeight = Math.max(2, level * h);
+    ctx.fillRect(i * slot + slot * 0.15, h - barHeight, slot * 0.7, barHeight);
+  });
+}
+
+function drawRadial(ctx: CanvasRenderingContext2D, data: Uint8Array, w: number, h: number) {
+  const levels = bands(data, RADIAL_BARS);
+  const radius = Math.min(w, h) * 0.25;
+  const maxLength = Math.min(w, h) / 2 - radius;
+  ctx.lineWidth = Math.max(2, (2 * Math.PI * radius) / RADIAL_BARS * 0.6);
+  ctx.beginPath();
+  levels.forEach((level, i) => {
+    const angle = (i / RADIAL_BARS) * 2 * Math.PI - Math.PI / 2;
+    const length = Math.max(2, level * maxLength);
+    ctx.moveTo(w / 2 + Math.cos(angle) * radius, h / 2 + Math.sin(angle) * radius);
+    ctx.lineTo(w / 2 + Math.cos(angle) * (radius + length), h / 2 + Math.sin(angle) * (radius + length));
+  });
+  ctx.stroke();
+}
+
+// Draws what is actually playing through Howler; falls back to the SiriWave animation without Web Audio
+const Visualizer: React.FC<VisualizerProps> = ({ mode = 'wave' }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [analyser] = useState(() => (typeof window !== 'undefined' ? getHowlerAnalyser() : null));
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !analyser) return;
+
+    const timeData = new Uint8Array(analyser.fftSize);
+    const freqData = new Uint8Array(analyser.frequencyBinCount);
+    let frame = 0;
+    let color = '';
+    let colorReadAt = 0;
+
+    const draw = (now: number) => {
+      // Follow layout changes (window resize, devicePixelRatio)
+      const ratio = window.devicePixelRatio || 1;
+      const w = Math.round(canvas.clientWidth * ratio);
+      const h = Math.round(canvas.clientHeight * ratio);
+      if (canvas.width !== w || canvas.height !== h) {
+        canvas.width = w;
+        canvas.height = h;
+      }
+      // --bar is set on .audio-player from the artwork colours
+      if (now - colorReadAt > COLOR_REFRESH_MS) {
+        color = getComputedStyle(canvas).getPropertyValue('--bar').trim() || '#fff';
+        colorReadAt = now;
+      }
+
+      ctx.clearRect(0, 0, w, h);
+      ctx.strokeStyle = color;
+      ctx.fillStyle = color;
+      if (mode === 'wave') {
+        analyser.getByteTimeDomainData(timeData);
+        drawWave(ctx, timeData, w, h);
+      } else {
+        analyser.getByteFrequencyData(freqData);
+        (mode === 'spectrum' ? drawSpectrum : drawRadial)(ctx, freqData, w, h);
+      }
+      frame = requestAnimationFrame(draw);
+    };
+    frame = requestAnimationFrame(draw);
+
+    return () => cancelAnimationFrame(frame);
+  }, [analyser, mode]);
+
+  if (!analyser) {
+    return (
+      <SiriWave
+        width={typeof window !== 'undefined' ? window.innerWidth : 0}
+        height={typeof window !== 'undefined' ? window.innerHeight * 0.3 : 0}
+        cover
+        speed={0.03}
+        amplitude={0.7}
+        frequency={2}
+        autostart
+      />
+    );
+  }
+
+  return <canvas ref={canvasRef} style={{ width: '100%', height: '100%' }} />;
+};
+
+export default Visualizer;
@@ -1,4 +1,10 @@
 export const DEVNET_JUKEBOX_PACKAGE_ID = "0x4ece67d78a624d12d9d9592e1f9e133af1bc50095f302782e62409b05bdfb32c";
 export const DEVNET_JUKEBOX_OBJECT_ID = "0x2fee2554b9836091b21a8f04da3f9383c0e77d5f6b57874c5a7089b85fe87ce1";
 export const TESTNET_JUKEBOX_PACKAGE_ID = "0x098ef41782cadcb5418841a9f1d40edf834f2ed22f8c499ec5c6d25e5021f1bf";
-export const TESTNET_JUKEBOX_OBJECT_ID = "0x3994d77dba7f065279f4b5c01d9febf0ad13cadc117625f4b400eb9a22a3b661";
\ No newline at end of file
+export const TESTNET_JUKEBOX_OBJECT_ID = "0x3994d77dba7f065279f4b5c01d9febf0ad13cadc117625f4b400eb9a22a3b661";
+// Not deployed on mainnet yet
+export const MAINNET_JUKEBOX_PACKAGE_ID = "";
+export const MAINNET_JUKEBOX_OBJECT_ID = "";
+// Localnet IDs change with every publish, so they come from the environment
+export const LOCALNET_JUKEBOX_PACKAGE_ID = process.env.NEXT_PUBLIC_LOCALNET_JUKEBOX_PACKAGE_ID ?? "";
+export const LOCALNET_JUKEBOX_OBJECT_ID = process.env.NEXT_PUBLIC_LOCALNET_JUKEBOX_OBJECT_ID ?? "";
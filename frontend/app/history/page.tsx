@@ -0,0 +1,137 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useSuiClient, useSuiClientContext } from "@mysten/dapp-kit";
+import { EventId } from "@mysten/sui/client";
+import { formatAddress, formatDigest } from "@mysten/sui/utils";
+import { useInfiniteQuery } from "@tanstack/react-query";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useRoomId } from "@/hooks/useRoomId";
+import { useTrackCatalog } from "@/hooks/useTrackCatalog";
+import { explorerTxUrl, formatSui, parseAddress } from "@/lib/format";
+import { fetchHistoryPage, HistoryFilter } from "@/lib/history";
+import { useNetworkVariable } from "@/networkConfig";
+
+export default function HistoryPage() {
+  const jukeboxPackageId = useNetworkVariable("jukeboxPackageId");
+  const jukeboxObjectId = useRoomId();
+
+  const suiClient = useSuiClient();
+  const { network } = useSuiClientContext();
+  const { allTracks: tracks } = useTrackCatalog();
+
+  const [trackInput, setTrackInput] = useState("");
+  const [buyerInput, setBuyerInput] = useState("");
+  const [filter, setFilter] = useState<HistoryFilter>({});
+  const [uiMsg, setUiMsg] = useState<string | null>(null);
+
+  const history = useInfiniteQuery({
+    queryKey: ["jukebox-history", network, jukeboxObjectId, filter],
+    queryFn: ({ pageParam }) =>
+      fetchHistoryPage(suiClient, jukeboxPackageId, jukeboxObjectId, filter, pageParam),
+    initialPageParam: null as EventId | null,
+    getNextPageParam: (last) => (last.hasNextPage ? last.nextCursor : undefined),
+    enabled: Boolean(jukeboxPackageId && jukeboxObjectId),
+  });
+
+  const records = useMemo(() => history.data?.pages.flatMap((p) => p.records) ?? [], [history.data]);
+  const titleOf = (trackId: number) => tracks.find((t) => t.id === trackId)?.title ?? `Track #${trackId}`;
+
+  const applyFilters = () => {
+    const buyer = parseAddress(buyerInput);
+    if (buyer === undefined) {
+      setUiMsg("The buyer must be a valid address or empty.");
+      return;
+    }
+    setUiMsg(null);
+    setFilter({ trackId: trackInput ? Number(trackInput) : null, buyer });
+  };
+
+  return (
+    <div className="bg-white text-black min-h-screen p-6 flex justify-center">
+      <Card className="w-full max-w-4xl">
+        <CardHeader>
+          <CardTitle>Play history</CardTitle>
+          <CardDescription>Every paid request, newest first, read from on-chain events.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            <select
+              className="h-9 rounded-md border px-3 text-sm"
+              value={trackInput}
+              onChange={(e) => setTrackInput(e.target.value)}
+            >
+              <option value="">All tracks</option>
+              {tracks.map((t) => (
+                <option key={t.id} value={t.id}>{t.title}</option>
+              ))}
+            </select>
+            <Input
+              className="flex-1 min-w-64"
+              value={buyerInput}
+              onChange={(e) => setBuyerInput(e.target.value)}
+              placeholder="Buyer address (optional)"
+            />
+            <Button onClick={applyFilters}>Filter</Button>
+          </div>
+
+          {uiMsg && <div className="text-sm text-red-600">{uiMsg}</div>}
+          {history.error && (
+            <div className="text-sm text-red-600">Could not load history: {String(history.error.message)}</div>
+          )}
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left border-b">
+                <th className="py-2">When</th>
+                <th>Track</th>
+                <th>Buyer</th>
+                <th>Paid</th>
+                <th>Transaction</th>
+              </tr>
+            </thead>
+            <tbody>
+              {records.map((r) => {
+                const txUrl = explorerTxUrl(network, r.digest);
+                return (
+                  <tr key={`${r.digest}:${r.eventSeq}`} className="border-b">
+                    <td className="py-2">{new Date(r.requestedAtMs).toLocaleString()}</td>
+                    <td>{titleOf(r.trackId)}</td>
+                    <td title={r.requester}>{formatAddress(r.requester)}</td>
+                    <td>{formatSui(r.paid)}</td>
+                    <td>
+                      {txUrl ? (
+                        <a className="underline" href={txUrl} target="_blank" rel="noreferrer">
+                          {formatDigest(r.digest)}
+                        </a>
+                      ) : (
+                        formatDigest(r.digest)
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          {history.isPending && <div className="text-sm">Loading…</div>}
+          {!history.isPending && records.length === 0 && !history.error && (
+            <div className="text-sm">No requests found.</div>
+          )}
+          {history.hasNextPage && (
+            <Button
+              variant="outline"
+              onClick={() => history.fetchNextPage()}
+              disabled={history.isFetchingNextPage}
+            >
+              {history.isFetchingNextPage ? "Loading…" : "Older requests"}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { useMemo } from "react";
+import { useCurrentAccount, useSuiClientQuery } from "@mysten/dapp-kit";
+
+import { useRoomId } from "@/hooks/useRoomId";
+import { adminCapJukeboxId, jukeboxTarget, moveFields } from "@/lib/jukebox";
+import { useNetworkVariable } from "@/networkConfig";
+
+// ID of the connected wallet's AdminCap for the current room, or null
+export function useAdminCap() {
+  const jukeboxPackageId = useNetworkVariable("jukeboxPackageId");
+  const jukeboxObjectId = useRoomId();
+  const currentAccount = useCurrentAccount();
+
+  const { data, isPending, refetch } = useSuiClientQuery(
+    "getOwnedObjects",
+    {
+      owner: currentAccount?.address || "",
+      filter: { StructType: jukeboxTarget(jukeboxPackageId, "AdminCap") },
+      options: { showContent: true },
+    },
+    { enabled: Boolean(currentAccount && jukeboxPackageId) }
+  );
+
+  // A wallet may own caps of other jukeboxes from the same package
+  const capId = useMemo(() => {
+    const cap = data?.data.find((o) => {
+      const fields = moveFields(o);
+      return fields !== null && adminCapJukeboxId(fields) === jukeboxObjectId;
+    });
+    return cap?.data?.objectId ?? null;
+  }, [data, jukeboxObjectId]);
+
+  return { capId, isPending: Boolean(currentAccount) && isPending, refetch };
+}
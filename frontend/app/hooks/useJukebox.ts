@@ -0,0 +1,34 @@
+"use client";
+
+import { useMemo } from "react";
+import { useSuiClientQuery } from "@mysten/dapp-kit";
+
+import { useRoomId } from "@/hooks/useRoomId";
+import { JukeboxState, moveFields, parseJukebox } from "@/lib/jukebox";
+
+// The shared Jukebox object of the current room (see useRoomId), parsed.
+// Every hook reading the object goes through here so react-query shares one request.
+export function useJukebox() {
+  const jukeboxObjectId = useRoomId();
+
+  const { data, isPending, error, refetch } = useSuiClientQuery(
+    "getObject",
+    {
+      id: jukeboxObjectId || "",
+      options: { showContent: true },
+    },
+    { enabled: Boolean(jukeboxObjectId) }
+  );
+
+  const parsed = useMemo<{ jukebox: JukeboxState | null; error: Error | null }>(() => {
+    const fields = moveFields(data);
+    if (!fields) return { jukebox: null, error: null };
+    try {
+      return { jukebox: parseJukebox(fields), error: null };
+    } catch (e) {
+      return { jukebox: null, error: e as Error };
+    }
+  }, [data]);
+
+  return { jukebox: parsed.jukebox, isPending, error: error ?? parsed.error, refetch };
+}
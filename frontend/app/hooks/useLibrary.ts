@@ -0,0 +1,79 @@
+"use client";
+
+import { useCallback } from "react";
+import { useCurrentAccount, useSignPersonalMessage, useSuiClientContext } from "@mysten/dapp-kit";
+import { normalizeSuiObjectId } from "@mysten/sui/utils";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { fetchLibrary, loadSession, putLibrary, saveSession } from "@/lib/library/client";
+import { LibraryProof, SESSION_DURATION_MS, sessionMessage } from "@/lib/library/proof";
+import { EMPTY_LIBRARY, Library, sameTrack, TrackRef } from "@/lib/library/types";
+
+export function trackRef(room: string, trackId: number): TrackRef {
+  return { room: normalizeSuiObjectId(room), track_id: trackId };
+}
+
+// The connected wallet's favorites and playlists (see /api/library).
+// Saving asks the wallet to sign a session message at most once a day; no transaction is involved.
+export function useLibrary() {
+  const { network } = useSuiClientContext();
+  const currentAccount = useCurrentAccount();
+  const { mutateAsync: signPersonalMessage } = useSignPersonalMessage();
+  const queryClient = useQueryClient();
+  const address = currentAccount?.address ?? null;
+  const queryKey = ["library", network, address];
+
+  const query = useQuery({
+    queryKey,
+    queryFn: () => fetchLibrary(network, address!),
+    enabled: Boolean(address),
+  });
+
+  const signSession = async (): Promise<LibraryProof> => {
+    const message = sessionMessage({ address: address!, network, expiresAtMs: Date.now() + SESSION_DURATION_MS });
+    const { bytes, signature } = await signPersonalMessage({ message: new TextEncoder().encode(message) });
+    const proof = { message: bytes, signature };
+    saveSession(network, address!, proof);
+    return proof;
+  };
+
+  const save = useMutation({
+    mutationFn: async (next: Library) => {
+      if (!address) throw new Error("Connect a wallet first.");
+      let result = await putLibrary(network, address, loadSession(network, address) ?? await signSession(), next);
+      // Revoked or expired on the server's clock: sign a fresh session once
+      if ("error" in result && result.status === 401) {
+        saveSession(network, address, null);
+        result = await putLibrary(network, address, await signSession(), next);
+      }
+      if ("error" in result) throw new Error(result.error);
+      return result;
+    },
+    onSuccess: (stored) => queryClient.setQueryData(queryKey, stored),
+  });
+
+  const library: Library = query.data ?? EMPTY_LIBRARY;
+
+  const isFavorite = useCallback(
+    (room: string, trackId: number) => library.favorites.some((f) => sameTrack(f, trackRef(room, trackId))),
+    [library]
+  );
+
+  const toggleFavorite = (room: string, trackId: number) => {
+    const ref = trackRef(room, trackId);
+    const favorites = isFavorite(room, trackId)
+      ? library.favorites.filter((f) => !sameTrack(f, ref))
+      : [...library.favorites, ref];
+    return save.mutateAsync({ ...library, favorites });
+  };
+
+  return {
+    library,
+    isPending: Boolean(address) && query.isPending,
+    error: query.error ?? save.error,
+    isSaving: save.isPending,
+    save: save.mutateAsync,
+    isFavorite,
+    toggleFavorite,
+  };
+}
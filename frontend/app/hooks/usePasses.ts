@@ -0,0 +1,37 @@
+"use client";
+
+import { useMemo } from "react";
+import { useCurrentAccount, useSuiClientQuery } from "@mysten/dapp-kit";
+
+import { useRoomId } from "@/hooks/useRoomId";
+import { jukeboxTarget, ListenerPass, moveFields, parsePass } from "@/lib/jukebox";
+import { useNetworkVariable } from "@/networkConfig";
+
+// Passes of the current room owned by the connected wallet, credit passes first
+export function usePasses() {
+  const jukeboxPackageId = useNetworkVariable("jukeboxPackageId");
+  const jukeboxObjectId = useRoomId();
+  const currentAccount = useCurrentAccount();
+
+  const { data, isPending, refetch } = useSuiClientQuery(
+    "getOwnedObjects",
+    {
+      owner: currentAccount?.address || "",
+      filter: { StructType: jukeboxTarget(jukeboxPackageId, "Pass") },
+      options: { showContent: true },
+    },
+    { enabled: Boolean(currentAccount && jukeboxPackageId) }
+  );
+
+  // Passes are per room, like AdminCaps
+  const passes = useMemo<ListenerPass[]>(() => {
+    const owned = (data?.data ?? [])
+      .map((o) => moveFields(o))
+      .filter((fields): fields is Record<string, unknown> => fields !== null)
+      .map(parsePass)
+      .filter((p) => p.jukeboxId === jukeboxObjectId);
+    return owned.sort((a, b) => Number(a.expiresAtMs !== null) - Number(b.expiresAtMs !== null));
+  }, [data, jukeboxObjectId]);
+
+  return { passes, isPending: Boolean(currentAccount) && isPending, refetch };
+}
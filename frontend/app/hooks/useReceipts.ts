@@ -0,0 +1,75 @@
+"use client";
+
+import { useMemo } from "react";
+import { useCurrentAccount, useSuiClientInfiniteQuery, useSuiClientQuery } from "@mysten/dapp-kit";
+
+import { useJukebox } from "@/hooks/useJukebox";
+import { jukeboxTarget, moveFields, parseReceipt, PlayReceipt } from "@/lib/jukebox";
+import { useNetworkVariable } from "@/networkConfig";
+
+// Display-rendered image, falling back to the receipt's own field
+export type ReceiptEntry = PlayReceipt & { displayImageUrl: string | null };
+
+// Every PlayReceipt the connected wallet owns, from all rooms, newest play first
+export function useReceipts() {
+  const jukeboxPackageId = useNetworkVariable("jukeboxPackageId");
+  const currentAccount = useCurrentAccount();
+
+  const query = useSuiClientInfiniteQuery(
+    "getOwnedObjects",
+    {
+      owner: currentAccount?.address || "",
+      filter: { StructType: jukeboxTarget(jukeboxPackageId, "PlayReceipt") },
+      options: { showContent: true, showDisplay: true },
+    },
+    { enabled: Boolean(currentAccount && jukeboxPackageId) }
+  );
+
+  const receipts = useMemo<ReceiptEntry[]>(() => {
+    const entries: ReceiptEntry[] = [];
+    for (const object of query.data?.pages.flatMap((p) => p.data) ?? []) {
+      const fields = moveFields(object);
+      if (!fields) continue;
+      const display = object.data?.display?.data;
+      entries.push({ ...parseReceipt(fields), displayImageUrl: display?.image_url || null });
+    }
+    return entries.sort((a, b) => b.playedAtMs - a.playedAtMs);
+  }, [query.data]);
+
+  return {
+    receipts,
+    isPending: Boolean(currentAccount) && query.isPending,
+    error: query.error,
+    hasNextPage: query.hasNextPage,
+    fetchNextPage: query.fetchNextPage,
+    isFetchingNextPage: query.isFetchingNextPage,
+    refetch: query.refetch,
+  };
+}
+
+// Whether the connected wallet gets a receipt for its plays in the current room,
+// and how many of its plays are recorded and waiting for claim_receipts
+export function useReceiptOptIn() {
+  const currentAccount = useCurrentAccount();
+  const { jukebox } = useJukebox();
+  const tableId = jukebox?.receipts.holdersTableId;
+
+  const { data, isPending, refetch } = useSuiClientQuery(
+    "getDynamicFieldObject",
+    {
+      parentId: tableId || "",
+      name: { type: "address", value: currentAccount?.address || "" },
+    },
+    { enabled: Boolean(currentAccount && tableId) }
+  );
+
+  // A missing field comes back as an error in the response, not a thrown one.
+  // The field is a `Field<address, vector<PendingReceipt>>`, content included.
+  const pending = moveFields(data)?.value;
+  return {
+    optedIn: Boolean(data?.data),
+    pendingCount: Array.isArray(pending) ? pending.length : 0,
+    isPending: Boolean(currentAccount) && isPending,
+    refetch,
+  };
+}
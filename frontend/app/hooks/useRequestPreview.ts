@@ -0,0 +1,48 @@
+"use client";
+
+import { useCurrentAccount, useSuiClient } from "@mysten/dapp-kit";
+import { useQuery } from "@tanstack/react-query";
+
+import { useJukebox } from "@/hooks/useJukebox";
+import { useRoomId } from "@/hooks/useRoomId";
+import { changeTrackTx, changeTrackWithPassTx } from "@/lib/jukebox";
+import { Track } from "@/lib/tracks";
+import { previewSponsored, previewTransaction } from "@/lib/txPreview";
+import { useNetworkVariable } from "@/networkConfig";
+
+// Dry run of the request the connected wallet is about to sign (nothing when disconnected).
+// Sponsored requests only need the fee, so they are checked against the balance alone;
+// requests paid with a pass (`passId`) only cost gas.
+export function useRequestPreview(track: Track | null, sponsored = false, passId: string | null = null) {
+  const jukeboxPackageId = useNetworkVariable("jukeboxPackageId");
+  const jukeboxObjectId = useRoomId();
+  const suiClient = useSuiClient();
+  const currentAccount = useCurrentAccount();
+  const { jukebox } = useJukebox();
+  const feeMist = jukebox?.feeMist;
+  const ids = { packageId: jukeboxPackageId, objectId: jukeboxObjectId };
+
+  return useQuery({
+    queryKey: ["request-preview", jukeboxObjectId, track?.id, feeMist, currentAccount?.address, sponsored, passId],
+    queryFn: () =>
+      passId
+        ? previewTransaction(
+          suiClient,
+          changeTrackWithPassTx(ids, { trackId: track!.id, passId }),
+          currentAccount!.address,
+          BigInt(0)
+        )
+        : sponsored
+          ? previewSponsored(suiClient, currentAccount!.address, BigInt(feeMist!))
+          : previewTransaction(
+            suiClient,
+            changeTrackTx(ids, { trackId: track!.id, feeMist: feeMist! }),
+            currentAccount!.address,
+            BigInt(feeMist!)
+          ),
+    enabled: Boolean(track && feeMist && currentAccount),
+    // Balances and the queue move; always simulate again when the sheet opens
+    staleTime: 0,
+    gcTime: 0,
+  });
+}
@@ -0,0 +1,22 @@
+"use client";
+
+import { createContext, useContext } from "react";
+
+import { useNetworkVariable } from "@/networkConfig";
+
+// Set by <RoomProvider> on /room/[id] pages; elsewhere the network's default jukebox is used
+export const RoomContext = createContext<string | null>(null);
+
+// Object ID of the jukebox (room) the page is about
+export function useRoomId(): string {
+  const defaultRoom = useNetworkVariable("jukeboxObjectId");
+  return useContext(RoomContext) ?? defaultRoom;
+}
+
+// Query string for the API routes: `network=…&room=…` (no room for the default jukebox)
+export function useRoomQuery(network: string): string {
+  const room = useContext(RoomContext);
+  const params = new URLSearchParams({ network });
+  if (room) params.set("room", room);
+  return params.toString();
+}
@@ -0,0 +1,25 @@
+"use client";
+
+import { useCurrentAccount, useSuiClientContext } from "@mysten/dapp-kit";
+import { useQuery } from "@tanstack/react-query";
+
+// Returned by GET /api/sponsor
+export type SponsorStatus =
+  | { enabled: false }
+  | { enabled: true; sponsor: string; daily_limit: number; remaining: number | null };
+
+// Whether the server pays gas on this network, and how many sponsored requests the wallet has left today
+export function useSponsor() {
+  const { network } = useSuiClientContext();
+  const currentAccount = useCurrentAccount();
+  const address = currentAccount?.address ?? "";
+
+  return useQuery({
+    queryKey: ["sponsor", network, address],
+    queryFn: async (): Promise<SponsorStatus> => {
+      const res = await fetch(`/api/sponsor?network=${encodeURIComponent(network)}&address=${address}`);
+      if (!res.ok) return { enabled: false };
+      return res.json();
+    },
+  });
+}
@@ -0,0 +1,18 @@
+"use client";
+
+import { useMemo } from "react";
+
+import { useJukebox } from "@/hooks/useJukebox";
+import { Track } from "@/lib/tracks";
+
+const NO_TRACKS: Track[] = [];
+
+// Loads the track registry stored on the shared Jukebox object.
+// `tracks` is what can still be requested; `allTracks` also has removed ones, for titles of past plays.
+export function useTrackCatalog() {
+  const { jukebox, isPending, error, refetch } = useJukebox();
+  const allTracks = jukebox?.tracks ?? NO_TRACKS;
+  const tracks = useMemo(() => allTracks.filter((t) => !t.removed), [allTracks]);
+
+  return { tracks, allTracks, isPending, error, refetch };
+}
@@ -18,7 +18,7 @@ export default function RootLayout({
       </head>
       <body>
         <Providers>
-          {/* <Navbar /> */}
+          <Navbar />
           {children}
         </Providers>
       </body>
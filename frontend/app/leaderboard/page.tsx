@@ -0,0 +1,192 @@
+"use client";
+
+import { useState } from "react";
+import {
+  useCurrentAccount,
+  useSignAndExecuteTransaction,
+  useSuiClient,
+  useSuiClientContext,
+} from "@mysten/dapp-kit";
+import { formatAddress } from "@mysten/sui/utils";
+import { useQuery } from "@tanstack/react-query";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useJukebox } from "@/hooks/useJukebox";
+import { useRoomQuery } from "@/hooks/useRoomId";
+import { formatSui } from "@/lib/format";
+import { explainTxError, setDisplayNameTx } from "@/lib/jukebox";
+import type { Leaderboard, LeaderboardSort, LeaderboardWindow, WalletStats } from "@/lib/leaderboard";
+import { useNetworkVariable } from "@/networkConfig";
+
+const WINDOWS: { value: LeaderboardWindow; label: string }[] = [
+  { value: "day", label: "24 hours" },
+  { value: "week", label: "7 days" },
+  { value: "all", label: "All time" },
+];
+const MAX_DISPLAY_NAME_BYTES = 32; // MAX_DISPLAY_NAME_LENGTH in jukebox.move
+
+function walletLabel(wallet: Pick<WalletStats, "address" | "name">) {
+  return wallet.name ?? formatAddress(wallet.address);
+}
+
+export default function LeaderboardPage() {
+  const jukeboxPackageId = useNetworkVariable("jukeboxPackageId");
+
+  const suiClient = useSuiClient();
+  const { network } = useSuiClientContext();
+  const roomQuery = useRoomQuery(network);
+  const currentAccount = useCurrentAccount();
+  const { mutate: signAndExecute } = useSignAndExecuteTransaction();
+  const { jukebox } = useJukebox();
+
+  const [timeWindow, setTimeWindow] = useState<LeaderboardWindow>("week");
+  const [sort, setSort] = useState<LeaderboardSort>("requests");
+  const [nameInput, setNameInput] = useState("");
+  const [waiting, setWaiting] = useState(false);
+  const [uiMsg, setUiMsg] = useState<string | null>(null);
+
+  const address = currentAccount?.address ?? "";
+  const board = useQuery({
+    queryKey: ["leaderboard", roomQuery, timeWindow, sort, address],
+    queryFn: async (): Promise<Leaderboard> => {
+      const res = await fetch(`/api/leaderboard?${roomQuery}&window=${timeWindow}&sort=${sort}&address=${address}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `/api/leaderboard responded ${res.status}`);
+      return data;
+    },
+    // Not every request emits an event the page could follow; a minute is fresh enough for rankings
+    refetchInterval: 60_000,
+  });
+
+  const titleOf = (trackId: number) => jukebox?.tracks.find((t) => t.id === trackId)?.title ?? `Track #${trackId}`;
+  // Widest bar: the busiest listed track, whichever order the list is in (at least 1, so no bar divides by 0)
+  const topTrackRequests = Math.max(1, ...(board.data?.tracks ?? []).map((t) => t.requests));
+
+  const saveName = () => {
+    const name = nameInput.trim();
+    if (new TextEncoder().encode(name).length > MAX_DISPLAY_NAME_BYTES) {
+      setUiMsg(`Display names are at most ${MAX_DISPLAY_NAME_BYTES} bytes long.`);
+      return;
+    }
+    setUiMsg(null);
+    setWaiting(true);
+    signAndExecute(
+      { transaction: setDisplayNameTx(jukeboxPackageId, name) },
+      {
+        onSuccess: async ({ digest }) => {
+          await suiClient.waitForTransaction({ digest });
+          setUiMsg(name ? `You now appear as “${name}”.` : "Display name cleared.");
+          setWaiting(false);
+          void board.refetch();
+        },
+        onError: (err) => {
+          setUiMsg(`Saving the name failed: ${explainTxError(String((err as any)?.message || err))}`);
+          setWaiting(false);
+        },
+      },
+    );
+  };
+
+  return (
+    <div className="bg-white text-black min-h-screen p-6 flex flex-col items-center gap-6">
+      <Card className="w-full max-w-4xl">
+        <CardHeader>
+          <CardTitle>Leaderboard</CardTitle>
+          <CardDescription>
+            Top requesters of this room, from on-chain request events.
+            {jukebox && <> Last buyer: <span title={jukebox.lastBuyer}>{formatAddress(jukebox.lastBuyer)}</span>.</>}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {WINDOWS.map((w) => (
+              <Button key={w.value} variant={timeWindow === w.value ? "default" : "outline"} onClick={() => setTimeWindow(w.value)}>
+                {w.label}
+              </Button>
+            ))}
+            <select
+              className="h-9 rounded-md border px-3 text-sm ml-auto"
+              value={sort}
+              onChange={(e) => setSort(e.target.value as LeaderboardSort)}
+            >
+              <option value="requests">By requests</option>
+              <option value="spent">By SUI spent</option>
+            </select>
+          </div>
+
+          {board.error && <div className="text-sm text-red-600">Could not load the leaderboard: {board.error.message}</div>}
+          {board.data && !board.data.complete && (
+            <div className="text-sm text-slate-600">Still reading older requests; totals will grow.</div>
+          )}
+
+          {board.data?.me && (
+            <div className="text-sm">
+              You: {board.data.me.rank ? `#${board.data.me.rank}` : "unranked"}, {board.data.me.requests} requests,{" "}
+              {formatSui(board.data.me.spent)} spent.
+            </div>
+          )}
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left border-b">
+                <th className="py-2">#</th>
+                <th>Listener</th>
+                <th>Requests</th>
+                <th>Spent</th>
+              </tr>
+            </thead>
+            <tbody>
+              {board.data?.wallets.map((w) => (
+                <tr key={w.address} className={`border-b ${w.address === address ? "font-medium" : ""}`}>
+                  <td className="py-2">{w.rank}</td>
+                  <td title={w.address}>{walletLabel(w)}</td>
+                  <td>{w.requests}</td>
+                  <td>{formatSui(w.spent)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {board.isPending && <div className="text-sm">Loading…</div>}
+          {board.data && board.data.wallets.length === 0 && <div className="text-sm">No requests in this window.</div>}
+        </CardContent>
+      </Card>
+
+      <Card className="w-full max-w-4xl">
+        <CardHeader>
+          <CardTitle>Most requested tracks</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {board.data?.tracks.map((t) => (
+            <div key={t.track_id} className="grid grid-cols-[12rem_1fr_auto] items-center gap-3 text-sm">
+              <span className="truncate">{titleOf(t.track_id)}</span>
+              <div className="h-2 rounded bg-slate-100">
+                <div className="h-2 rounded bg-slate-800" style={{ width: `${(t.requests / topTrackRequests) * 100}%` }} />
+              </div>
+              <span>{t.requests} · {formatSui(t.spent)}</span>
+            </div>
+          ))}
+          {board.data && board.data.tracks.length === 0 && <div className="text-sm">No requests in this window.</div>}
+        </CardContent>
+      </Card>
+
+      <Card className="w-full max-w-4xl">
+        <CardHeader>
+          <CardTitle>Display name</CardTitle>
+          <CardDescription>Shown instead of your address on every room&apos;s leaderboard. Leave empty to clear it.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <div className="flex gap-2">
+            <Input value={nameInput} onChange={(e) => setNameInput(e.target.value)} placeholder={board.data?.me?.name ?? "Your name"} />
+            <Button onClick={saveName} disabled={waiting || !currentAccount}>
+              {waiting ? "Waiting…" : "Save"}
+            </Button>
+          </div>
+          {!currentAccount && <div className="text-sm text-slate-600">Connect a wallet to set a name.</div>}
+          {uiMsg && <div className="text-sm">{uiMsg}</div>}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { Howler } from 'howler';
+
+// One analyser for the whole app, spliced between Howler's master gain and the speakers
+let analyser: AnalyserNode | null = null;
+
+// Null when Howler plays through HTML5 audio (no Web Audio API, or not created yet)
+export function getHowlerAnalyser(): AnalyserNode | null {
+  if (analyser) return analyser;
+  if (!Howler.usingWebAudio || !Howler.ctx || !Howler.masterGain) return null;
+
+  analyser = Howler.ctx.createAnalyser();
+  analyser.fftSize = 2048;
+  analyser.smoothingTimeConstant = 0.8;
+
+  Howler.masterGain.disconnect();
+  Howler.masterGain.connect(analyser);
+  analyser.connect(Howler.ctx.destination);
+  return analyser;
+}
@@ -0,0 +1,107 @@
+// One upstream chain reader per room and server process, shared by every /api/chain/stream client.
+import { SuiEvent } from '@mysten/sui/client';
+
+import { eventJukeboxId } from '@/lib/jukebox';
+import { watchJukeboxEvents } from '@/lib/jukeboxEvents';
+import { NowPlaying, readNowPlaying } from '@/lib/nowPlaying';
+import { ServerChain } from '@/lib/serverChain';
+
+export type StreamListener = {
+  onSnapshot: (snapshot: NowPlaying) => void;
+  onEvent: (event: SuiEvent) => void;
+};
+
+// Re-read even without events, in case the event reader missed something
+const SAFETY_REFRESH_MS = 30_000;
+// Read again just after the current track ends so queued requests start on time
+const TRACK_END_MARGIN_MS = 250;
+
+type Watcher = {
+  listeners: Set<StreamListener>;
+  last: NowPlaying | null;
+  stop: () => void;
+};
+
+// Keyed by `network:room`; survives module reloads in `next dev`
+const globalForWatcher = globalThis as unknown as { jukeboxWatchers?: Map<string, Watcher> };
+
+function startWatcher(chain: ServerChain): Watcher {
+  const watcher: Watcher = { listeners: new Set(), last: null, stop: () => {} };
+  let trackEndTimer: ReturnType<typeof setTimeout> | undefined;
+  let lastKey = '';
+  // Set by stop(): a refresh still in flight must not re-arm timers or push to listeners
+  let stopped = false;
+
+  const refresh = async () => {
+    if (stopped) return;
+    try {
+      const snapshot = await readNowPlaying(chain.client, chain.objectId);
+      if (stopped) return;
+      if ('error' in snapshot) {
+        console.warn(`Chain watcher (${chain.network}):`, snapshot.error);
+        return;
+      }
+
+      if (trackEndTimer) clearTimeout(trackEndTimer);
+      if (snapshot.started_at_ms !== null && snapshot.duration_ms !== null) {
+        const endsIn = snapshot.started_at_ms + snapshot.duration_ms - snapshot.server_time_ms;
+        trackEndTimer = setTimeout(refresh, Math.max(0, endsIn) + TRACK_END_MARGIN_MS);
+      }
+
+      // Only push when something listeners care about changed
+      const key = JSON.stringify({ ...snapshot, server_time_ms: 0 });
+      watcher.last = snapshot;
+      if (key === lastKey) return;
+      lastKey = key;
+      watcher.listeners.forEach(l => l.onSnapshot(snapshot));
+    } catch (e) {
+      console.warn(`Chain watcher (${chain.network}) refresh failed:`, e);
+    }
+  };
+
+  const stopEvents = watchJukeboxEvents(
+    chain.client,
+    chain.packageId,
+    (event) => {
+      if (stopped) return;
+      // Every room of the package emits from the same module
+      if (eventJukeboxId(event, chain.packageId) !== chain.objectId) return;
+      watcher.listeners.forEach(l => l.onEvent(event));
+      void refresh();
+    },
+    { subscribe: false }
+  );
+  const safetyTimer = setInterval(refresh, SAFETY_REFRESH_MS);
+  void refresh();
+
+  watcher.stop = () => {
+    stopped = true;
+    stopEvents();
+    clearInterval(safetyTimer);
+    if (trackEndTimer) clearTimeout(trackEndTimer);
+  };
+  return watcher;
+}
+
+// Registers a stream client; the upstream reader runs while at least one is connected.
+export function subscribeToChain(chain: ServerChain, listener: StreamListener): () => void {
+  const watchers = globalForWatcher.jukeboxWatchers ??= new Map();
+  const key = `${chain.network}:${chain.objectId}`;
+  let watcher = watchers.get(key);
+  if (!watcher) {
+    watcher = startWatcher(chain);
+    watchers.set(key, watcher);
+  }
+  watcher.listeners.add(listener);
+  if (watcher.last) listener.onSnapshot(watcher.last);
+
+  return () => {
+    watcher.listeners.delete(listener);
+    if (watcher.listeners.size === 0) {
+      watcher.stop();
+      if (watchers.get(key) === watcher) {
+        watchers.delete(key);
+      }
+    }
+  };
+}
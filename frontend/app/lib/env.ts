@@ -0,0 +1,22 @@
+// Numeric settings read from the server environment. A malformed value throws when the module that
+// reads it loads, instead of turning into NaN and silently disabling the limit it sets.
+
+export function positiveIntegerEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+  const value = Number(raw);
+  if (!Number.isSafeInteger(value) || value <= 0) {
+    throw new Error(`${name} must be a positive integer, got "${raw}"`);
+  }
+  return value;
+}
+
+// Mist amounts and other values past Number's safe range
+export function positiveBigIntEnv(name: string, fallback: bigint): bigint {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+  if (!/^\d+$/.test(raw) || BigInt(raw) === BigInt(0)) {
+    throw new Error(`${name} must be a positive integer, got "${raw}"`);
+  }
+  return BigInt(raw);
+}
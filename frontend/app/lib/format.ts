@@ -0,0 +1,41 @@
+import { isValidSuiAddress, normalizeSuiAddress } from "@mysten/sui/utils";
+
+// 1 SUI = 10^9 MIST
+export const MIST_PER_SUI = 1_000_000_000;
+
+// "1.5 SUI" for amounts of at least 0.001 SUI, "12345 MIST" below that
+export function formatSui(mist: number | string): string {
+  const value = Number(mist);
+  if (value !== 0 && Math.abs(value) < MIST_PER_SUI / 1000) {
+    return `${value.toLocaleString("en-US")} MIST`;
+  }
+  const sui = value / MIST_PER_SUI;
+  return `${sui.toLocaleString("en-US", { maximumFractionDigits: 4 })} SUI`;
+}
+
+// "1.25" (SUI) -> "1250000000" (MIST); null when the input is not a valid amount
+export function parseSuiToMist(input: string): string | null {
+  const match = /^\s*(\d+)(?:\.(\d{0,9}))?\s*$/.exec(input);
+  if (!match) return null;
+  const whole = match[1].replace(/^0+(?=\d)/, "");
+  const fraction = (match[2] ?? "").padEnd(9, "0");
+  return `${whole}${fraction}`.replace(/^0+(?=\d)/, "");
+}
+
+// Empty string -> null, otherwise a normalized address (or undefined if invalid)
+export function parseAddress(input: string): string | null | undefined {
+  if (!input.trim()) return null;
+  const address = normalizeSuiAddress(input.trim());
+  return isValidSuiAddress(address) ? address : undefined;
+}
+
+// Suiscan link for a transaction; null on networks without a public explorer
+export function explorerTxUrl(network: string, digest: string): string | null {
+  if (!["devnet", "testnet", "mainnet"].includes(network)) return null;
+  return `https://suiscan.xyz/${network}/tx/${digest}`;
+}
+
+export function explorerObjectUrl(network: string, objectId: string): string | null {
+  if (!["devnet", "testnet", "mainnet"].includes(network)) return null;
+  return `https://suiscan.xyz/${network}/object/${objectId}`;
+}
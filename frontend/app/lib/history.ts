@@ -0,0 +1,76 @@
+import { EventId, SuiClient, SuiEvent, SuiEventFilter } from "@mysten/sui/client";
+
+import { decodeJukeboxEvent, jukeboxTarget } from "@/lib/jukebox";
+
+export const HISTORY_PAGE_SIZE = 25;
+// Filtered pages may need several event pages; stop scanning after this many
+const MAX_SCANNED_PAGES = 10;
+
+// One paid request, decoded from a `TrackRequested` event
+export type PlayRecord = {
+  requestId: number;
+  trackId: number;
+  requester: string;
+  paid: string; // MIST
+  requestedAtMs: number;
+  digest: string;
+  eventSeq: string;
+};
+
+export type HistoryFilter = {
+  trackId?: number | null;
+  buyer?: string | null; // normalized address
+};
+
+export type HistoryPage = {
+  records: PlayRecord[];
+  nextCursor: EventId | null;
+  hasNextPage: boolean;
+};
+
+export function parseRequestEvent(event: SuiEvent, packageId: string, jukeboxId: string): PlayRecord | null {
+  const decoded = decodeJukeboxEvent(event, packageId);
+  if (decoded?.kind !== "TrackRequested" || decoded.json.jukebox_id !== jukeboxId) return null;
+
+  return {
+    requestId: Number(decoded.json.request_id),
+    trackId: Number(decoded.json.track_id),
+    requester: decoded.json.requester,
+    paid: decoded.json.paid,
+    requestedAtMs: Number(decoded.json.requested_at_ms),
+    digest: event.id.txDigest,
+    eventSeq: event.id.eventSeq,
+  };
+}
+
+// Newest first. A buyer filter queries that sender's events; the track filter is applied here.
+export async function fetchHistoryPage(
+  client: SuiClient,
+  packageId: string,
+  jukeboxId: string,
+  filter: HistoryFilter,
+  cursor: EventId | null = null,
+  pageSize = HISTORY_PAGE_SIZE
+): Promise<HistoryPage> {
+  const query: SuiEventFilter = filter.buyer
+    ? { Sender: filter.buyer }
+    : { MoveEventType: jukeboxTarget(packageId, "TrackRequested") };
+
+  const records: PlayRecord[] = [];
+  let nextCursor = cursor;
+  let hasNextPage = true;
+
+  for (let scanned = 0; scanned < MAX_SCANNED_PAGES && hasNextPage && records.length < pageSize; scanned++) {
+    const page = await client.queryEvents({ query, cursor: nextCursor, limit: pageSize, order: "descending" });
+    for (const event of page.data) {
+      const record = parseRequestEvent(event, packageId, jukeboxId);
+      if (!record) continue;
+      if (filter.trackId != null && record.trackId !== filter.trackId) continue;
+      records.push(record);
+    }
+    nextCursor = page.nextCursor ?? null;
+    hasNextPage = page.hasNextPage;
+  }
+
+  return { records, nextCursor, hasNextPage };
+}
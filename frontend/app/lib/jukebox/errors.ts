@@ -0,0 +1,44 @@
+import { JUKEBOX_MODULE } from "./types";
+
+// Abort codes of jukebox.move (the E_* constants)
+export const JUKEBOX_ABORTS: Record<number, string> = {
+  1: "The payment is below the request fee.",            // E_INSUFFICIENT_PAYMENT
+  2: "This track is not in the catalog.",                // E_UNKNOWN_TRACK
+  3: "This AdminCap belongs to another jukebox.",        // E_WRONG_CAP
+  4: "Artist and curator shares cannot exceed 100%.",    // E_INVALID_SPLIT
+  5: "Requests are paused by the jukebox owner.",        // E_PAUSED
+  6: "Room names must be 1 to 64 bytes long.",           // E_INVALID_NAME
+  7: "A tip must be more than zero.",                    // E_EMPTY_TIP
+  8: "Nothing is playing.",                              // E_NOTHING_PLAYING
+  9: "Skipping is turned off in this room.",             // E_SKIP_DISABLED
+  10: "You already voted to skip this play.",            // E_ALREADY_VOTED
+  11: "The skip refund cannot exceed 100%.",             // E_INVALID_REFUND
+  12: "Display names are at most 32 bytes long.",        // E_INVALID_DISPLAY_NAME
+  13: "This request is no longer in the queue.",         // E_UNKNOWN_REQUEST
+  14: "This request is not refundable.",                 // E_NOT_REFUNDABLE
+  15: "Only the requester can claim this refund.",       // E_NOT_REQUESTER
+  16: "This pass belongs to another room.",              // E_WRONG_PASS
+  17: "This pass has no credits left.",                  // E_NO_CREDITS
+  18: "This pass has expired.",                          // E_PASS_EXPIRED
+  19: "Your pass allows one request at a time; try again in a few minutes.", // E_PASS_RATE_LIMITED
+  20: "This room does not sell unlimited passes.",       // E_PASSES_NOT_SOLD
+  21: "Buy between 1 and 100 credits.",                  // E_INVALID_CREDITS
+  22: "Tracks must be longer than zero and at most 2 hours.", // E_INVALID_DURATION
+  23: "This track was removed from the catalog.",        // E_TRACK_REMOVED
+  24: "You have no plays to claim receipts for.",        // E_NO_PENDING_RECEIPTS
+  25: "The refund timeout must be at least 2 hours.",    // E_INVALID_TIMEOUT
+};
+
+// Turns fullnode/wallet errors into something a listener can act on; unknown errors pass through
+export function explainTxError(message: string): string {
+  // MoveAbort(MoveLocation { module: ModuleId { ..., name: Identifier("jukebox") }, ... }, 5) in command 1
+  const abort = /MoveAbort\(.*?Identifier\("(\w+)"\).*?,\s*(\d+)\)/.exec(message);
+  if (abort && abort[1] === JUKEBOX_MODULE) {
+    const code = Number(abort[2]);
+    return JUKEBOX_ABORTS[code] ?? `The jukebox rejected the transaction (code ${code}).`;
+  }
+  if (/InsufficientCoinBalance|InsufficientGas|insufficient SUI balance|No valid gas coins/i.test(message)) {
+    return "Not enough SUI to cover the fee and gas.";
+  }
+  return message;
+}
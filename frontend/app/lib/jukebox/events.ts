@@ -0,0 +1,41 @@
+import { SuiEvent } from "@mysten/sui/client";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+
+import { JUKEBOX_MODULE, JukeboxEventJson, JukeboxEventName } from "./types";
+
+type Decoded<K extends JukeboxEventName> = { kind: K; json: JukeboxEventJson[K] };
+
+// Discriminated on `kind`: `if (e.kind === "TrackRequested") e.json.paid`
+export type JukeboxEvent = { [K in JukeboxEventName]: Decoded<K> }[JukeboxEventName];
+
+const EVENT_NAMES: Record<JukeboxEventName, true> = {
+  JukeboxCreated: true,
+  TrackRegistered: true,
+  TrackRequested: true,
+  TrackChanged: true,
+  RequestRefundable: true,
+  RefundClaimed: true,
+  Tipped: true,
+  SkipVoted: true,
+  TrackSkipped: true,
+  DisplayNameSet: true,
+  PassBought: true,
+  CreditsRefunded: true,
+  FeeChanged: true,
+  PausedChanged: true,
+};
+
+// Null for events of other packages or modules, or unknown to this version of the app.
+// Any package can publish a `jukebox` module with look-alike events, so the package must match.
+export function decodeJukeboxEvent(event: SuiEvent, packageId: string): JukeboxEvent | null {
+  const [pkg, module, name] = event.type.split("::");
+  if (normalizeSuiAddress(pkg) !== normalizeSuiAddress(packageId) || module !== JUKEBOX_MODULE) return null;
+  if (!Object.prototype.hasOwnProperty.call(EVENT_NAMES, name)) return null;
+  return { kind: name, json: event.parsedJson } as JukeboxEvent;
+}
+
+// The room an event concerns; null for events that are not about one room
+export function eventJukeboxId(event: SuiEvent, packageId: string): string | null {
+  const json = decodeJukeboxEvent(event, packageId)?.json;
+  return json && "jukebox_id" in json ? json.jukebox_id : null;
+}
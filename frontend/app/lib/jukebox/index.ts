@@ -0,0 +1,7 @@
+// Typed client for the `jukebox` Move package: object parsing, event decoding, transaction builders.
+// Shared by the React app and the API routes.
+export * from "./types";
+export * from "./parse";
+export * from "./events";
+export * from "./transactions";
+export * from "./errors";
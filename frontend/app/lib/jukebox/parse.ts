@@ -0,0 +1,191 @@
+import { SuiObjectResponse } from "@mysten/sui/client";
+
+import { PlayRequest } from "@/lib/queue";
+import { SplitConfig } from "@/lib/split";
+import { Track } from "@/lib/tracks";
+
+import { AdminCapFields, JUKEBOX_LAYOUT, JukeboxFields, PassFields, PlayReceiptFields, RequestFields } from "./types";
+
+// Typed view of the shared Jukebox object
+export type JukeboxState = {
+  id: string;
+  name: string;
+  payoutAddress: string;
+  paused: boolean;
+  feeMist: string;           // u64, kept as a string
+  lastBuyer: string;
+  currentTrackId: number | null;
+  currentStartedAtMs: number;
+  currentRequest: PlayRequest | null;
+  queue: PlayRequest[];
+  tracks: Track[];
+  split: SplitConfig;
+  skip: SkipState;
+  escrowTimeoutMs: number;   // queued requests that cannot start within this are refundable
+  escrowMist: string;        // fees of queued and refundable requests
+  refundable: PlayRequest[]; // expired or rejected, not claimed yet
+  passPolicy: PassPolicy;
+  receipts: ReceiptSettings;
+};
+
+// Vote-to-skip on the current play
+export type SkipState = {
+  votes: string[];        // voter addresses
+  threshold: number;      // 0 when skipping is off
+  refundBps: number;      // of the fee paid, back to a skipped requester
+  refundPoolMist: string;
+};
+
+// Unlimited passes on sale; credit passes cost the fee per credit
+export type PassPolicy = {
+  priceMist: string; // "0" when not sold
+  durationMs: number;
+  minIntervalMs: number;
+};
+
+// Opt-ins live in a Table: membership is a dynamic field of `holdersTableId`, keyed by address
+export type ReceiptSettings = {
+  holdersTableId: string;
+  artworkBaseUrl: string; // "" when receipts have no image
+};
+
+// A `jukebox::PlayReceipt`, minted when one of the listener's requests started playing
+export type PlayReceipt = {
+  id: string;
+  jukeboxId: string;
+  room: string;
+  requestId: number;
+  trackId: number;
+  title: string;
+  artist: string;
+  paidMist: string;
+  requestedAtMs: number;
+  playedAtMs: number;
+  imageUrl: string;
+};
+
+// A `jukebox::Pass` owned by the listener
+export type ListenerPass = {
+  id: string;
+  jukeboxId: string;
+  credits: number;
+  creditValueMist: string;
+  expiresAtMs: number | null; // null for a credit pass
+  minIntervalMs: number;
+  lastUsedMs: number;
+};
+
+function parseRequest({ fields: r }: { fields: RequestFields }): PlayRequest {
+  return {
+    id: Number(r.id),
+    requester: r.requester,
+    trackId: Number(r.track_id),
+    paidMist: r.paid,
+    requestedAtMs: Number(r.requested_at_ms),
+  };
+}
+
+// Move fields of an object response; null when the object is missing or not a Move object
+export function moveFields(response: SuiObjectResponse | undefined | null): Record<string, unknown> | null {
+  const content = response?.data?.content;
+  if (content?.dataType !== "moveObject") return null;
+  return content.fields as Record<string, unknown>;
+}
+
+// Throws when the object does not have the layout of `jukebox::Jukebox`
+// (wrong object ID, or a package upgrade the app was not updated for)
+export function parseJukebox(raw: Record<string, unknown>): JukeboxState {
+  const missing = Object.keys(JUKEBOX_LAYOUT).filter((key) => !(key in raw));
+  if (missing.length > 0) {
+    throw new Error(`Object is not a jukebox::Jukebox (missing ${missing.join(", ")})`);
+  }
+  const fields = raw as JukeboxFields;
+
+  return {
+    id: fields.id.id,
+    name: fields.name,
+    payoutAddress: fields.payout_address,
+    paused: fields.paused,
+    feeMist: fields.fee,
+    lastBuyer: fields.last_buyer,
+    currentTrackId: fields.current_track === null ? null : Number(fields.current_track),
+    currentStartedAtMs: Number(fields.current_started_at_ms),
+    currentRequest: fields.current_request ? parseRequest(fields.current_request) : null,
+    queue: fields.queue.map(parseRequest),
+    tracks: fields.tracks.map(({ fields: t }) => ({
+      id: Number(t.track_id),
+      title: t.title,
+      artist: t.artist,
+      blobId: t.blob_id,
+      durationMs: Number(t.duration_ms),
+      tipsMist: t.tips,
+      removed: t.removed,
+    })),
+    split: {
+      artistBps: Number(fields.artist_bps),
+      curatorBps: Number(fields.curator_bps),
+      curator: fields.curator,
+    },
+    skip: {
+      votes: fields.skip_votes,
+      threshold: Number(fields.skip_threshold),
+      refundBps: Number(fields.skip_refund_bps),
+      refundPoolMist: fields.refund_pool,
+    },
+    escrowTimeoutMs: Number(fields.escrow_timeout_ms),
+    escrowMist: fields.escrow,
+    refundable: fields.refundable.map(parseRequest),
+    passPolicy: {
+      priceMist: fields.pass_price,
+      durationMs: Number(fields.pass_duration_ms),
+      minIntervalMs: Number(fields.pass_min_interval_ms),
+    },
+    receipts: {
+      holdersTableId: fields.receipt_holders.fields.id.id,
+      artworkBaseUrl: fields.artwork_base_url,
+    },
+  };
+}
+
+export function parsePass(raw: Record<string, unknown>): ListenerPass {
+  const fields = raw as PassFields;
+  return {
+    id: fields.id.id,
+    jukeboxId: fields.jukebox_id,
+    credits: Number(fields.credits),
+    creditValueMist: fields.credit_value,
+    expiresAtMs: fields.expires_at_ms === "0" ? null : Number(fields.expires_at_ms),
+    minIntervalMs: Number(fields.min_interval_ms),
+    lastUsedMs: Number(fields.last_used_ms),
+  };
+}
+
+export function parseReceipt(raw: Record<string, unknown>): PlayReceipt {
+  const fields = raw as PlayReceiptFields;
+  return {
+    id: fields.id.id,
+    jukeboxId: fields.jukebox_id,
+    room: fields.room,
+    requestId: Number(fields.request_id),
+    trackId: Number(fields.track_id),
+    title: fields.title,
+    artist: fields.artist,
+    paidMist: fields.paid,
+    requestedAtMs: Number(fields.requested_at_ms),
+    playedAtMs: Number(fields.played_at_ms),
+    imageUrl: fields.image_url,
+  };
+}
+
+// When `change_track_with_pass` would accept the pass: now, later (rate limit), or never (null)
+export function passUsableAt(pass: ListenerPass, nowMs: number): number | null {
+  if (pass.expiresAtMs === null) return pass.credits > 0 ? nowMs : null;
+  if (nowMs >= pass.expiresAtMs) return null;
+  const next = pass.lastUsedMs === 0 ? nowMs : Math.max(nowMs, pass.lastUsedMs + pass.minIntervalMs);
+  return next < pass.expiresAtMs ? next : null;
+}
+
+// Jukebox ID an AdminCap object controls
+export function adminCapJukeboxId(raw: Record<string, unknown>): string {
+  return (raw as AdminCapFields).jukebox_id;
+}
@@ -0,0 +1,319 @@
+import { coinWithBalance, Transaction } from "@mysten/sui/transactions";
+
+import { jukeboxTarget } from "./types";
+
+// Where the package is published and which shared Jukebox to act on
+export type JukeboxIds = {
+  packageId: string;
+  objectId: string;
+};
+
+// create_jukebox(String, u64, &mut TxContext): shares a new room and sends its AdminCap to the sender
+export function createJukeboxTx(
+  packageId: string,
+  { name, feeMist }: { name: string; feeMist: string | bigint }
+): Transaction {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: jukeboxTarget(packageId, "create_jukebox"),
+    arguments: [tx.pure.string(name), tx.pure.u64(feeMist)],
+  });
+  return tx;
+}
+
+// register_track(&mut Jukebox, String, String, u64, &TxContext)
+export function registerTrackTx(
+  ids: JukeboxIds,
+  { title, blobRef, durationMs }: { title: string; blobRef: string; durationMs: number }
+): Transaction {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: jukeboxTarget(ids.packageId, "register_track"),
+    arguments: [tx.object(ids.objectId), tx.pure.string(title), tx.pure.string(blobRef), tx.pure.u64(durationMs)],
+  });
+  return tx;
+}
+
+// change_track(&mut Jukebox, Coin<SUI>, u64, &Clock, &mut TxContext), paying exactly `feeMist`.
+// Sponsored transactions must not touch the gas coin (it is the sponsor's), so they pay from the sender's coins.
+export function changeTrackTx(
+  ids: JukeboxIds,
+  { trackId, feeMist, sponsored = false }: { trackId: number; feeMist: string | bigint; sponsored?: boolean }
+): Transaction {
+  const tx = new Transaction();
+  const payment = sponsored
+    ? tx.add(coinWithBalance({ balance: BigInt(feeMist), useGasCoin: false }))
+    : tx.splitCoins(tx.gas, [tx.pure.u64(feeMist)])[0];
+  tx.moveCall({
+    target: jukeboxTarget(ids.packageId, "change_track"),
+    arguments: [tx.object(ids.objectId), payment, tx.pure.u64(trackId), tx.object.clock()],
+  });
+  return tx;
+}
+
+// change_track_with_pass(&mut Jukebox, &mut Pass, u64, &Clock, &mut TxContext): no coin, gas only
+export function changeTrackWithPassTx(ids: JukeboxIds, { trackId, passId }: { trackId: number; passId: string }): Transaction {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: jukeboxTarget(ids.packageId, "change_track_with_pass"),
+    arguments: [tx.object(ids.objectId), tx.object(passId), tx.pure.u64(trackId), tx.object.clock()],
+  });
+  return tx;
+}
+
+// buy_credits(&mut Jukebox, Coin<SUI>, u64, &mut TxContext): a Pass with `credits` requests at the current fee
+export function buyCreditsTx(
+  ids: JukeboxIds,
+  { credits, feeMist }: { credits: number; feeMist: string | bigint }
+): Transaction {
+  const tx = new Transaction();
+  const [payment] = tx.splitCoins(tx.gas, [tx.pure.u64(BigInt(feeMist) * BigInt(credits))]);
+  tx.moveCall({
+    target: jukeboxTarget(ids.packageId, "buy_credits"),
+    arguments: [tx.object(ids.objectId), payment, tx.pure.u64(credits)],
+  });
+  return tx;
+}
+
+// refund_credits(&mut Jukebox, Pass, &mut TxContext): the unused credits' escrow (if any) back to the sender; burns the pass
+export function refundCreditsTx(ids: JukeboxIds, passId: string): Transaction {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: jukeboxTarget(ids.packageId, "refund_credits"),
+    arguments: [tx.object(ids.objectId), tx.object(passId)],
+  });
+  return tx;
+}
+
+// buy_pass(&mut Jukebox, Coin<SUI>, &Clock, &mut TxContext): an unlimited, rate-limited Pass
+export function buyPassTx(ids: JukeboxIds, priceMist: string | bigint): Transaction {
+  const tx = new Transaction();
+  const [payment] = tx.splitCoins(tx.gas, [tx.pure.u64(priceMist)]);
+  tx.moveCall({
+    target: jukeboxTarget(ids.packageId, "buy_pass"),
+    arguments: [tx.object(ids.objectId), payment, tx.object.clock()],
+  });
+  return tx;
+}
+
+// tip(&mut Jukebox, Coin<SUI>, u64, &TxContext): the whole amount goes to the track's artist
+export function tipTx(ids: JukeboxIds, { trackId, amountMist }: { trackId: number; amountMist: string | bigint }): Transaction {
+  const tx = new Transaction();
+  const [payment] = tx.splitCoins(tx.gas, [tx.pure.u64(amountMist)]);
+  tx.moveCall({
+    target: jukeboxTarget(ids.packageId, "tip"),
+    arguments: [tx.object(ids.objectId), payment, tx.pure.u64(trackId)],
+  });
+  return tx;
+}
+
+// vote_skip(&mut Jukebox, &Clock, &mut TxContext): one vote per address and play
+export function voteSkipTx(ids: JukeboxIds): Transaction {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: jukeboxTarget(ids.packageId, "vote_skip"),
+    arguments: [tx.object(ids.objectId), tx.object.clock()],
+  });
+  return tx;
+}
+
+// claim_refund(&mut Jukebox, u64, &Clock, &mut TxContext): the fee of an expired or rejected request back to its requester
+export function claimRefundTx(ids: JukeboxIds, requestId: number): Transaction {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: jukeboxTarget(ids.packageId, "claim_refund"),
+    arguments: [tx.object(ids.objectId), tx.pure.u64(requestId), tx.object.clock()],
+  });
+  return tx;
+}
+
+// set_display_name(String, &TxContext): shown instead of the address on leaderboards, "" clears it
+export function setDisplayNameTx(packageId: string, name: string): Transaction {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: jukeboxTarget(packageId, "set_display_name"),
+    arguments: [tx.pure.string(name)],
+  });
+  return tx;
+}
+
+// set_receipts(&mut Jukebox, bool, &TxContext): a PlayReceipt for each of the sender's plays in this room, or none
+export function setReceiptsTx(ids: JukeboxIds, enabled: boolean): Transaction {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: jukeboxTarget(ids.packageId, "set_receipts"),
+    arguments: [tx.object(ids.objectId), tx.pure.bool(enabled)],
+  });
+  return tx;
+}
+
+export function claimReceiptsTx(ids: JukeboxIds): Transaction {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: jukeboxTarget(ids.packageId, "claim_receipts"),
+    arguments: [tx.object(ids.objectId)],
+  });
+  return tx;
+}
+
+// --- Admin: every call takes the AdminCap of this jukebox ---
+
+export function setFeeTx(ids: JukeboxIds, capId: string, feeMist: string | bigint): Transaction {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: jukeboxTarget(ids.packageId, "set_fee"),
+    arguments: [tx.object(capId), tx.object(ids.objectId), tx.pure.u64(feeMist)],
+  });
+  return tx;
+}
+
+export function setPausedTx(ids: JukeboxIds, capId: string, paused: boolean): Transaction {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: jukeboxTarget(ids.packageId, "set_paused"),
+    arguments: [tx.object(capId), tx.object(ids.objectId), tx.pure.bool(paused)],
+  });
+  return tx;
+}
+
+export function setSplitTx(
+  ids: JukeboxIds,
+  capId: string,
+  { artistBps, curatorBps, curator }: { artistBps: number; curatorBps: number; curator: string | null }
+): Transaction {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: jukeboxTarget(ids.packageId, "set_split"),
+    arguments: [
+      tx.object(capId),
+      tx.object(ids.objectId),
+      tx.pure.u64(artistBps),
+      tx.pure.u64(curatorBps),
+      tx.pure.option("address", curator),
+    ],
+  });
+  return tx;
+}
+
+export function setPayoutAddressTx(ids: JukeboxIds, capId: string, payout: string): Transaction {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: jukeboxTarget(ids.packageId, "set_payout_address"),
+    arguments: [tx.object(capId), tx.object(ids.objectId), tx.pure.address(payout)],
+  });
+  return tx;
+}
+
+export function setSkipPolicyTx(
+  ids: JukeboxIds,
+  capId: string,
+  { threshold, refundBps }: { threshold: number; refundBps: number }
+): Transaction {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: jukeboxTarget(ids.packageId, "set_skip_policy"),
+    arguments: [tx.object(capId), tx.object(ids.objectId), tx.pure.u64(threshold), tx.pure.u64(refundBps)],
+  });
+  return tx;
+}
+
+// Moves `amountMist` from the owner's gas coin into the skip refund pool
+export function fundRefundsTx(ids: JukeboxIds, capId: string, amountMist: string | bigint): Transaction {
+  const tx = new Transaction();
+  const [payment] = tx.splitCoins(tx.gas, [tx.pure.u64(amountMist)]);
+  tx.moveCall({
+    target: jukeboxTarget(ids.packageId, "fund_refunds"),
+    arguments: [tx.object(capId), tx.object(ids.objectId), payment],
+  });
+  return tx;
+}
+
+export function withdrawRefundsTx(ids: JukeboxIds, capId: string): Transaction {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: jukeboxTarget(ids.packageId, "withdraw_refunds"),
+    arguments: [tx.object(capId), tx.object(ids.objectId)],
+  });
+  return tx;
+}
+
+export function setPassPolicyTx(
+  ids: JukeboxIds,
+  capId: string,
+  { priceMist, durationMs, minIntervalMs }: { priceMist: string | bigint; durationMs: number; minIntervalMs: number }
+): Transaction {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: jukeboxTarget(ids.packageId, "set_pass_policy"),
+    arguments: [
+      tx.object(capId),
+      tx.object(ids.objectId),
+      tx.pure.u64(priceMist),
+      tx.pure.u64(durationMs),
+      tx.pure.u64(minIntervalMs),
+    ],
+  });
+  return tx;
+}
+
+// Receipts minted afterwards use `url` + the track's blob reference as their image
+export function setArtworkBaseUrlTx(ids: JukeboxIds, capId: string, url: string): Transaction {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: jukeboxTarget(ids.packageId, "set_artwork_base_url"),
+    arguments: [tx.object(capId), tx.object(ids.objectId), tx.pure.string(url)],
+  });
+  return tx;
+}
+
+// The request leaves the queue; its requester can claim the fee back
+export function rejectRequestTx(ids: JukeboxIds, capId: string, requestId: number): Transaction {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: jukeboxTarget(ids.packageId, "reject_request"),
+    arguments: [tx.object(capId), tx.object(ids.objectId), tx.pure.u64(requestId)],
+  });
+  return tx;
+}
+
+export function skipCurrentTx(ids: JukeboxIds, capId: string): Transaction {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: jukeboxTarget(ids.packageId, "skip_current"),
+    arguments: [tx.object(capId), tx.object(ids.objectId), tx.object.clock()],
+  });
+  return tx;
+}
+
+export function removeTrackTx(ids: JukeboxIds, capId: string, trackId: number): Transaction {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: jukeboxTarget(ids.packageId, "remove_track"),
+    arguments: [tx.object(capId), tx.object(ids.objectId), tx.pure.u64(trackId), tx.object.clock()],
+  });
+  return tx;
+}
+
+export function setEscrowTimeoutTx(ids: JukeboxIds, capId: string, timeoutMs: number): Transaction {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: jukeboxTarget(ids.packageId, "set_escrow_timeout"),
+    arguments: [tx.object(capId), tx.object(ids.objectId), tx.pure.u64(timeoutMs)],
+  });
+  return tx;
+}
+
+// Hands the AdminCap itself to `newOwner` and sends the platform share to `newPayout` from then on
+export function transferOwnershipTx(
+  ids: JukeboxIds,
+  capId: string,
+  newOwner: string,
+  newPayout: string
+): Transaction {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: jukeboxTarget(ids.packageId, "transfer_ownership"),
+    arguments: [tx.object(capId), tx.object(ids.objectId), tx.pure.address(newOwner), tx.pure.address(newPayout)],
+  });
+  return tx;
+}
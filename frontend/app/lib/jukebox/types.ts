@@ -0,0 +1,194 @@
+// Field layouts of the structs in jukebox/sources/jukebox.move, as the fullnode returns them:
+// u64 as strings, Option<T> as T | null, nested structs as { type, fields }.
+// Keep these in step with the Move source; parseJukebox checks them at runtime.
+
+export const JUKEBOX_MODULE = "jukebox";
+
+type MoveStruct<T> = { type: string; fields: T };
+type UID = { id: string };
+
+export type TrackFields = {
+  track_id: string;
+  title: string;
+  artist: string;
+  blob_id: string;
+  duration_ms: string;
+  tips: string;
+  removed: boolean;
+};
+
+export type RequestFields = {
+  id: string;
+  requester: string;
+  track_id: string;
+  paid: string;
+  requested_at_ms: string;
+};
+
+export type JukeboxFields = {
+  id: UID;
+  name: string;
+  payout_address: string;
+  paused: boolean;
+  fee: string;
+  last_buyer: string;
+  current_track: string | null;
+  current_started_at_ms: string;
+  current_request: MoveStruct<RequestFields> | null;
+  queue: MoveStruct<RequestFields>[];
+  tracks: MoveStruct<TrackFields>[];
+  artist_bps: string;
+  curator_bps: string;
+  curator: string | null;
+  skip_votes: string[];
+  skip_threshold: string;
+  skip_refund_bps: string;
+  refund_pool: string; // Balance<SUI>, as its value
+  next_request_id: string;
+  escrow: string; // Balance<SUI>, as its value
+  escrow_timeout_ms: string;
+  refundable: MoveStruct<RequestFields>[];
+  pass_price: string;
+  pass_duration_ms: string;
+  pass_min_interval_ms: string;
+  receipt_holders: MoveStruct<{ id: UID; size: string }>; // Table<address, vector<PendingReceipt>>
+  artwork_base_url: string;
+};
+
+export type PassFields = {
+  id: UID;
+  jukebox_id: string;
+  credits: string;
+  credit_value: string;
+  expires_at_ms: string; // "0" for a credit pass
+  min_interval_ms: string;
+  last_used_ms: string;
+};
+
+export type PlayReceiptFields = {
+  id: UID;
+  jukebox_id: string;
+  room: string;
+  request_id: string;
+  track_id: string;
+  title: string;
+  artist: string;
+  paid: string;
+  requested_at_ms: string;
+  played_at_ms: string;
+  image_url: string;
+};
+
+export type AdminCapFields = {
+  id: UID;
+  jukebox_id: string;
+};
+
+// Listing every key here makes the compiler flag a field added to one side only
+export const JUKEBOX_LAYOUT: Record<keyof JukeboxFields, true> = {
+  id: true,
+  name: true,
+  payout_address: true,
+  paused: true,
+  fee: true,
+  last_buyer: true,
+  current_track: true,
+  current_started_at_ms: true,
+  current_request: true,
+  queue: true,
+  tracks: true,
+  artist_bps: true,
+  curator_bps: true,
+  curator: true,
+  skip_votes: true,
+  skip_threshold: true,
+  skip_refund_bps: true,
+  refund_pool: true,
+  next_request_id: true,
+  escrow: true,
+  escrow_timeout_ms: true,
+  refundable: true,
+  pass_price: true,
+  pass_duration_ms: true,
+  pass_min_interval_ms: true,
+  receipt_holders: true,
+  artwork_base_url: true,
+};
+
+// `parsedJson` of the events emitted by the module
+export type JukeboxEventJson = {
+  JukeboxCreated: { jukebox_id: string; owner: string; name: string };
+  TrackRegistered: { jukebox_id: string; track_id: string; artist: string };
+  TrackRequested: {
+    jukebox_id: string;
+    request_id: string;
+    track_id: string;
+    requester: string;
+    paid: string;
+    requested_at_ms: string;
+    position: string;
+  };
+  TrackChanged: { jukebox_id: string; request_id: string; track_id: string; requester: string; started_at_ms: string };
+  // reason: 0 waited past the escrow timeout, 1 rejected by the owner
+  RequestRefundable: {
+    jukebox_id: string;
+    request_id: string;
+    track_id: string;
+    requester: string;
+    amount: string;
+    reason: number;
+  };
+  RefundClaimed: { jukebox_id: string; request_id: string; requester: string; amount: string };
+  Tipped: { jukebox_id: string; track_id: string; artist: string; tipper: string; amount: string };
+  SkipVoted: { jukebox_id: string; track_id: string; voter: string; votes: string; threshold: string };
+  TrackSkipped: { jukebox_id: string; track_id: string; requester: string; votes: string; refund: string };
+  DisplayNameSet: { owner: string; name: string }; // the only event without a jukebox_id
+  PassBought: {
+    jukebox_id: string;
+    pass_id: string;
+    buyer: string;
+    credits: string;
+    expires_at_ms: string;
+    paid: string;
+  };
+  CreditsRefunded: { jukebox_id: string; pass_id: string; owner: string; credits: string; amount: string };
+  FeeChanged: { jukebox_id: string; fee: string };
+  PausedChanged: { jukebox_id: string; paused: boolean };
+};
+
+export type JukeboxEventName = keyof JukeboxEventJson;
+
+// Entry functions called from the app
+export type JukeboxFunction =
+  | "create_jukebox"
+  | "register_track"
+  | "change_track"
+  | "change_track_with_pass"
+  | "buy_credits"
+  | "buy_pass"
+  | "refund_credits"
+  | "tip"
+  | "vote_skip"
+  | "set_display_name"
+  | "set_receipts"
+  | "claim_receipts"
+  | "claim_refund"
+  | "set_fee"
+  | "set_split"
+  | "set_paused"
+  | "set_payout_address"
+  | "set_skip_policy"
+  | "fund_refunds"
+  | "withdraw_refunds"
+  | "reject_request"
+  | "skip_current"
+  | "remove_track"
+  | "set_escrow_timeout"
+  | "set_pass_policy"
+  | "set_artwork_base_url"
+  | "transfer_ownership";
+
+// "<package>::jukebox::<name>", for Move calls, struct types and event types
+export function jukeboxTarget(packageId: string, name: JukeboxFunction | JukeboxEventName | "AdminCap" | "Pass" | "PlayReceipt" | "Jukebox"): string {
+  return `${packageId}::${JUKEBOX_MODULE}::${name}`;
+}
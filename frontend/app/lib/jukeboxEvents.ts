@@ -0,0 +1,70 @@
+import { EventId, SuiClient, SuiEvent, SuiEventFilter } from "@mysten/sui/client";
+
+import { JUKEBOX_MODULE } from "@/lib/jukebox";
+
+// How often the cursor reader asks for new events when no subscription is available
+export const EVENT_POLL_INTERVAL_MS = 1000;
+
+type WatchOptions = {
+  pollIntervalMs?: number;
+  subscribe?: boolean; // try a fullnode subscription before falling back to the cursor reader
+};
+
+// Follows every event emitted by the jukebox module from now on.
+// Returns a function that stops watching.
+export function watchJukeboxEvents(
+  client: SuiClient,
+  packageId: string,
+  onEvent: (event: SuiEvent) => void,
+  { pollIntervalMs = EVENT_POLL_INTERVAL_MS, subscribe = true }: WatchOptions = {}
+): () => void {
+  const filter: SuiEventFilter = { MoveModule: { package: packageId, module: JUKEBOX_MODULE } };
+
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let unsubscribe: (() => Promise<boolean>) | undefined;
+  // undefined until we know where "now" is in the event stream
+  let cursor: EventId | null | undefined;
+
+  const poll = async () => {
+    try {
+      if (cursor === undefined) {
+        // Start after the newest event: history is not replayed
+        const latest = await client.queryEvents({ query: filter, order: "descending", limit: 1 });
+        cursor = latest.data[0]?.id ?? null;
+      } else {
+        let page;
+        do {
+          page = await client.queryEvents({ query: filter, cursor, order: "ascending" });
+          if (stopped) return;
+          page.data.forEach(onEvent);
+          cursor = page.nextCursor ?? cursor;
+        } while (page.hasNextPage);
+      }
+    } catch (e) {
+      console.warn("Jukebox event poll failed:", e);
+    }
+    if (!stopped) timer = setTimeout(poll, pollIntervalMs);
+  };
+
+  if (subscribe) {
+    client
+      .subscribeEvent({ filter, onMessage: onEvent })
+      .then((unsub) => {
+        if (stopped) void unsub();
+        else unsubscribe = unsub;
+      })
+      .catch((e) => {
+        console.warn("Event subscription unavailable, reading events by cursor:", e);
+        if (!stopped) void poll();
+      });
+  } else {
+    void poll();
+  }
+
+  return () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+    void unsubscribe?.();
+  };
+}
@@ -0,0 +1,175 @@
+// Request totals per wallet and per track, from `TrackRequested` events indexed once per network
+import { EventId, SuiEventFilter } from '@mysten/sui/client';
+
+import { parseRequestEvent, PlayRecord } from '@/lib/history';
+import { decodeJukeboxEvent, JUKEBOX_MODULE } from '@/lib/jukebox';
+import { ServerChain } from '@/lib/serverChain';
+
+export type LeaderboardWindow = 'day' | 'week' | 'all';
+export type LeaderboardSort = 'requests' | 'spent';
+
+export const LEADERBOARD_WINDOWS: Record<LeaderboardWindow, number | null> = {
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  all: null,
+};
+
+export const LEADERBOARD_SIZE = 50;
+// Requests within this long of each other share one read of the chain
+const SYNC_INTERVAL_MS = 5_000;
+// Bounds the first (cold) sync so one request cannot page through the whole history alone
+const MAX_PAGES_PER_SYNC = 50;
+
+export type WalletStats = {
+  address: string;
+  name: string | null;
+  requests: number;
+  spent: string; // MIST
+  rank: number;
+};
+
+export type TrackStats = {
+  track_id: number;
+  requests: number;
+  spent: string; // MIST
+};
+
+// Served by /api/leaderboard
+export type Leaderboard = {
+  window: LeaderboardWindow;
+  sort: LeaderboardSort;
+  since_ms: number | null;
+  wallets: WalletStats[];
+  tracks: TrackStats[];
+  me: WalletStats | null; // the `address` asked about; rank 0 when it made no request in the window
+  complete: boolean;      // false while the index is still catching up with old events
+};
+
+type NetworkIndex = {
+  records: Map<string, PlayRecord[]>; // by jukebox ID, oldest first
+  names: Map<string, string>;
+  cursor: EventId | null;
+  complete: boolean;
+  syncedAt: number;
+  syncing: Promise<void> | null;
+};
+
+// Survives module reloads in `next dev`
+const globalForLeaderboard = globalThis as unknown as { leaderboardIndexes?: Map<string, NetworkIndex> };
+const indexes = (globalForLeaderboard.leaderboardIndexes ??= new Map());
+
+// Reads every event of the module once, oldest first: requests of every room and display names
+async function syncIndex(chain: ServerChain, index: NetworkIndex): Promise<void> {
+  const query: SuiEventFilter = { MoveModule: { package: chain.packageId, module: JUKEBOX_MODULE } };
+  let hasNextPage = true;
+
+  for (let pages = 0; pages < MAX_PAGES_PER_SYNC && hasNextPage; pages++) {
+    const page = await chain.client.queryEvents({ query, cursor: index.cursor, order: 'ascending' });
+    for (const event of page.data) {
+      const decoded = decodeJukeboxEvent(event, chain.packageId);
+      if (decoded?.kind === 'TrackRequested') {
+        const record = parseRequestEvent(event, chain.packageId, decoded.json.jukebox_id);
+        if (!record) continue;
+        const room = index.records.get(decoded.json.jukebox_id) ?? [];
+        room.push(record);
+        index.records.set(decoded.json.jukebox_id, room);
+      } else if (decoded?.kind === 'RequestRefundable') {
+        // Expired or rejected: it never played and its fee goes back, so it does not count
+        const room = index.records.get(decoded.json.jukebox_id);
+        const requestId = Number(decoded.json.request_id);
+        if (room) index.records.set(decoded.json.jukebox_id, room.filter((r) => r.requestId !== requestId));
+      } else if (decoded?.kind === 'DisplayNameSet') {
+        if (decoded.json.name) index.names.set(decoded.json.owner, decoded.json.name);
+        else index.names.delete(decoded.json.owner);
+      }
+    }
+    index.cursor = page.nextCursor ?? index.cursor;
+    hasNextPage = page.hasNextPage;
+  }
+  index.complete = !hasNextPage;
+  index.syncedAt = Date.now();
+}
+
+async function getIndex(chain: ServerChain): Promise<NetworkIndex> {
+  const key = `${chain.network}:${chain.packageId}`;
+  let index = indexes.get(key);
+  if (!index) {
+    index = { records: new Map(), names: new Map(), cursor: null, complete: false, syncedAt: 0, syncing: null };
+    indexes.set(key, index);
+  }
+  if (!index.syncing && (!index.complete || Date.now() - index.syncedAt > SYNC_INTERVAL_MS)) {
+    const current = index;
+    current.syncing = syncIndex(chain, current).finally(() => { current.syncing = null; });
+  }
+  if (index.syncing) await index.syncing;
+  return index;
+}
+
+export function isLeaderboardWindow(value: string): value is LeaderboardWindow {
+  return Object.prototype.hasOwnProperty.call(LEADERBOARD_WINDOWS, value);
+}
+
+export function isLeaderboardSort(value: string): value is LeaderboardSort {
+  return value === 'requests' || value === 'spent';
+}
+
+type Totals = { requests: number; spent: bigint };
+
+function compareTotals(sort: LeaderboardSort) {
+  const bySpent = (a: Totals, b: Totals) => (b.spent > a.spent ? 1 : b.spent < a.spent ? -1 : 0);
+  const byRequests = (a: Totals, b: Totals) => b.requests - a.requests;
+  return sort === 'requests'
+    ? (a: Totals, b: Totals) => byRequests(a, b) || bySpent(a, b)
+    : (a: Totals, b: Totals) => bySpent(a, b) || byRequests(a, b);
+}
+
+// Wallets and tracks ranked by request count or SUI spent, the other one breaking ties
+export async function buildLeaderboard(
+  chain: ServerChain,
+  window: LeaderboardWindow,
+  sort: LeaderboardSort = 'requests',
+  me: string | null = null
+): Promise<Leaderboard> {
+  const index = await getIndex(chain);
+  const span = LEADERBOARD_WINDOWS[window];
+  const sinceMs = span === null ? null : Date.now() - span;
+  const compare = compareTotals(sort);
+
+  const wallets = new Map<string, Totals>();
+  const tracks = new Map<number, Totals>();
+  for (const record of index.records.get(chain.objectId) ?? []) {
+    if (sinceMs !== null && record.requestedAtMs < sinceMs) continue;
+    const wallet = wallets.get(record.requester) ?? { requests: 0, spent: BigInt(0) };
+    wallet.requests += 1;
+    wallet.spent += BigInt(record.paid);
+    wallets.set(record.requester, wallet);
+    const track = tracks.get(record.trackId) ?? { requests: 0, spent: BigInt(0) };
+    track.requests += 1;
+    track.spent += BigInt(record.paid);
+    tracks.set(record.trackId, track);
+  }
+
+  const ranked: WalletStats[] = [...wallets.entries()]
+    .sort(([, a], [, b]) => compare(a, b))
+    .map(([address, stats], i) => ({
+      address,
+      name: index.names.get(address) ?? null,
+      requests: stats.requests,
+      spent: String(stats.spent),
+      rank: i + 1,
+    }));
+
+  return {
+    window,
+    sort,
+    since_ms: sinceMs,
+    wallets: ranked.slice(0, LEADERBOARD_SIZE),
+    tracks: [...tracks.entries()]
+      .sort(([, a], [, b]) => compare(a, b))
+      .map(([trackId, stats]) => ({ track_id: trackId, requests: stats.requests, spent: String(stats.spent) })),
+    me: me
+      ? ranked.find((w) => w.address === me) ?? { address: me, name: index.names.get(me) ?? null, requests: 0, spent: '0', rank: 0 }
+      : null,
+    complete: index.complete,
+  };
+}
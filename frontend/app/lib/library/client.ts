@@ -0,0 +1,52 @@
+// Browser side of /api/library: fetching the library, and the signed session kept in localStorage until it expires
+import { fromBase64 } from "@mysten/sui/utils";
+
+import { LibraryProof, parseSessionMessage } from "./proof";
+import { Library, StoredLibrary } from "./types";
+
+const SESSION_KEY = "jukebox-library-session";
+
+function sessionKey(network: string, address: string): string {
+  return `${SESSION_KEY}:${network}:${address}`;
+}
+
+// A stored proof that is still valid for a few minutes, or null
+export function loadSession(network: string, address: string): LibraryProof | null {
+  try {
+    const proof = JSON.parse(localStorage.getItem(sessionKey(network, address)) ?? "null") as LibraryProof | null;
+    if (!proof) return null;
+    const claims = parseSessionMessage(new TextDecoder().decode(fromBase64(proof.message)));
+    return claims && claims.expiresAtMs > Date.now() + 5 * 60_000 ? proof : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveSession(network: string, address: string, proof: LibraryProof | null) {
+  if (proof) localStorage.setItem(sessionKey(network, address), JSON.stringify(proof));
+  else localStorage.removeItem(sessionKey(network, address));
+}
+
+export async function fetchLibrary(network: string, address: string): Promise<StoredLibrary> {
+  const res = await fetch(`/api/library?network=${network}&address=${address}`);
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || `/api/library responded ${res.status}`);
+  return data;
+}
+
+// Replaces the whole library; `status` 401 means the session needs signing again
+export async function putLibrary(
+  network: string,
+  address: string,
+  proof: LibraryProof,
+  library: Library
+): Promise<StoredLibrary | { error: string; status: number }> {
+  const res = await fetch(`/api/library?network=${network}&address=${address}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ proof, library }),
+  });
+  const data = await res.json();
+  if (!res.ok) return { error: data.error || `/api/library responded ${res.status}`, status: res.status };
+  return data;
+}
@@ -0,0 +1,41 @@
+// Ownership of a library is proven by a personal message the wallet signs once per session,
+// not by a transaction: nothing goes on chain and nothing costs gas.
+
+export const SESSION_DURATION_MS = 24 * 60 * 60 * 1000;
+
+const MESSAGE_TITLE = "Jukebox library session";
+
+// `message` is the base64 of the signed bytes, as wallets return them
+export type LibraryProof = {
+  message: string;
+  signature: string;
+};
+
+export type SessionClaims = {
+  address: string;
+  network: string;
+  expiresAtMs: number;
+};
+
+// The text the wallet shows; parseSessionMessage reads it back on the server
+export function sessionMessage({ address, network, expiresAtMs }: SessionClaims): string {
+  return [
+    MESSAGE_TITLE,
+    "Lets this browser edit your favorites and playlists. No transaction, no fee.",
+    `Address: ${address}`,
+    `Network: ${network}`,
+    `Expires: ${new Date(expiresAtMs).toISOString()}`,
+  ].join("\n");
+}
+
+export function parseSessionMessage(text: string): SessionClaims | null {
+  const lines = text.split("\n");
+  if (lines[0] !== MESSAGE_TITLE) return null;
+  const field = (name: string) => lines.find((l) => l.startsWith(`${name}: `))?.slice(name.length + 2);
+
+  const address = field("Address");
+  const network = field("Network");
+  const expiresAtMs = Date.parse(field("Expires") ?? "");
+  if (!address || !network || Number.isNaN(expiresAtMs)) return null;
+  return { address, network, expiresAtMs };
+}
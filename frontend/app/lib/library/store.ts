@@ -0,0 +1,62 @@
+// Server side: one JSON file per network and address, written only with a valid session proof
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { fromBase64 } from "@mysten/sui/utils";
+import { verifyPersonalMessageSignature } from "@mysten/sui/verify";
+
+import { parseSessionMessage, LibraryProof, SESSION_DURATION_MS } from "./proof";
+import { EMPTY_LIBRARY, Library, StoredLibrary } from "./types";
+
+function libraryDir(): string {
+  return process.env.LIBRARY_DIR || path.join(process.cwd(), ".library");
+}
+
+// Addresses are normalized by the caller, so they are safe as file names
+function libraryPath(network: string, address: string): string {
+  return path.join(libraryDir(), network, `${address}.json`);
+}
+
+export async function readLibrary(network: string, address: string): Promise<StoredLibrary> {
+  try {
+    return JSON.parse(await readFile(libraryPath(network, address), "utf8"));
+  } catch {
+    return { ...EMPTY_LIBRARY, address, updated_at_ms: 0 };
+  }
+}
+
+export async function writeLibrary(network: string, address: string, library: Library): Promise<StoredLibrary> {
+  const stored: StoredLibrary = { ...library, address, updated_at_ms: Date.now() };
+  const file = libraryPath(network, address);
+  await mkdir(path.dirname(file), { recursive: true });
+  // Write then rename, so a crash never leaves half a file
+  await writeFile(`${file}.tmp`, JSON.stringify(stored));
+  await rename(`${file}.tmp`, file);
+  return stored;
+}
+
+// Null when the proof was signed by `address` for `network` and is still valid, otherwise why not
+export async function verifyLibraryProof(
+  proof: LibraryProof,
+  network: string,
+  address: string
+): Promise<string | null> {
+  let bytes: Uint8Array;
+  try {
+    bytes = fromBase64(proof.message);
+  } catch {
+    return "Malformed session message";
+  }
+  const claims = parseSessionMessage(new TextDecoder().decode(bytes));
+  if (!claims) return "Not a jukebox library session";
+  if (claims.address !== address || claims.network !== network) return "This session is for another wallet or network";
+  const now = Date.now();
+  if (claims.expiresAtMs <= now) return "Session expired, sign in again";
+  if (claims.expiresAtMs > now + SESSION_DURATION_MS + 60_000) return "Session lasts too long";
+
+  try {
+    await verifyPersonalMessageSignature(bytes, proof.signature, { address });
+  } catch {
+    return "Invalid signature";
+  }
+  return null;
+}
@@ -0,0 +1,79 @@
+// Favorites and playlists of one wallet on one network, shared by the app and /api/library.
+// Track IDs only mean something inside a room, so every entry names its room.
+
+export const MAX_FAVORITES = 500;
+export const MAX_PLAYLISTS = 50;
+export const MAX_PLAYLIST_TRACKS = 200;
+export const MAX_PLAYLIST_NAME = 64; // characters
+
+export type TrackRef = { room: string; track_id: number };
+
+export type Playlist = {
+  id: string; // chosen by the client, unique within the library
+  name: string;
+  tracks: TrackRef[];
+};
+
+export type Library = {
+  favorites: TrackRef[];
+  playlists: Playlist[];
+};
+
+// What /api/library serves
+export type StoredLibrary = Library & {
+  address: string;
+  updated_at_ms: number; // 0 for a wallet that never saved anything
+};
+
+export const EMPTY_LIBRARY: Library = { favorites: [], playlists: [] };
+
+export function sameTrack(a: TrackRef, b: TrackRef): boolean {
+  return a.room === b.room && a.track_id === b.track_id;
+}
+
+function parseTrackRef(value: unknown): TrackRef | null {
+  if (!value || typeof value !== "object") return null;
+  const { room, track_id } = value as Record<string, unknown>;
+  if (typeof room !== "string" || !/^0x[0-9a-f]{64}$/.test(room)) return null;
+  if (typeof track_id !== "number" || !Number.isInteger(track_id) || track_id < 0) return null;
+  return { room, track_id };
+}
+
+function parseTrackRefs(value: unknown, max: number): TrackRef[] | string {
+  if (!Array.isArray(value)) return "expected an array of { room, track_id }";
+  if (value.length > max) return `at most ${max} tracks`;
+  const refs: TrackRef[] = [];
+  for (const item of value) {
+    const ref = parseTrackRef(item);
+    if (!ref) return "expected { room: normalized object ID, track_id: integer }";
+    if (!refs.some((r) => sameTrack(r, ref))) refs.push(ref);
+  }
+  return refs;
+}
+
+// Checks a library sent by a client; the error says which part is wrong
+export function parseLibrary(value: unknown): Library | { error: string } {
+  if (!value || typeof value !== "object") return { error: "Expected { favorites, playlists }" };
+  const raw = value as Record<string, unknown>;
+
+  const favorites = parseTrackRefs(raw.favorites, MAX_FAVORITES);
+  if (typeof favorites === "string") return { error: `favorites: ${favorites}` };
+
+  if (!Array.isArray(raw.playlists)) return { error: "playlists: expected an array" };
+  if (raw.playlists.length > MAX_PLAYLISTS) return { error: `playlists: at most ${MAX_PLAYLISTS}` };
+  const playlists: Playlist[] = [];
+  for (const item of raw.playlists) {
+    const { id, name, tracks } = (item ?? {}) as Record<string, unknown>;
+    if (typeof id !== "string" || !/^[\w-]{1,64}$/.test(id) || playlists.some((p) => p.id === id)) {
+      return { error: "playlists: every playlist needs a unique id" };
+    }
+    if (typeof name !== "string" || !name.trim() || name.length > MAX_PLAYLIST_NAME) {
+      return { error: `playlists: names are 1 to ${MAX_PLAYLIST_NAME} characters long` };
+    }
+    const refs = parseTrackRefs(tracks, MAX_PLAYLIST_TRACKS);
+    if (typeof refs === "string") return { error: `playlist "${name}": ${refs}` };
+    playlists.push({ id, name: name.trim(), tracks: refs });
+  }
+
+  return { favorites, playlists };
+}
@@ -0,0 +1,90 @@
+import { SuiClient } from '@mysten/sui/client';
+
+import { JukeboxState, moveFields, parseJukebox } from '@/lib/jukebox';
+import { resolveSchedule } from '@/lib/queue';
+
+// Payload served by /api/chain/current-track and pushed by /api/chain/stream
+export type NowPlaying = {
+  current_track: number | null;
+  started_at_ms: number | null;
+  server_time_ms: number; // lets clients correct their clock before seeking
+  title: string | null;
+  file: string | null;
+  artist: string | null;
+  duration_ms: number | null;
+  tips: string | null; // all-time tips for the current track, MIST
+  last_buyer: string;
+  fee: string;
+  paused: boolean;
+  skip_voters: string[];    // addresses that voted to skip the current play
+  skip_threshold: number;   // votes that skip it, 0 when skipping is off
+  queue: {
+    position: number;
+    request_id: number;
+    track_id: number;
+    title: string | null;
+    requester: string;
+    paid: string;
+    requested_at_ms: number;
+  }[];
+};
+
+// Reads the Jukebox object and replays its queue up to now
+// (advance is only called on chain by transactions).
+export async function readNowPlaying(
+  client: SuiClient,
+  jukeboxObjectId: string
+): Promise<NowPlaying | { error: string }> {
+  const response = await client.getObject({
+    id: jukeboxObjectId,
+    options: { showContent: true }
+  });
+
+  if (!response.data) {
+    return { error: 'Jukebox object not found' };
+  }
+
+  const fields = moveFields(response);
+  if (!fields) {
+    return { error: 'Invalid object type' };
+  }
+
+  let jukebox: JukeboxState;
+  try {
+    jukebox = parseJukebox(fields);
+  } catch (e) {
+    return { error: e instanceof Error ? e.message : String(e) };
+  }
+  const tracks = jukebox.tracks;
+
+  const nowMs = Date.now();
+  const { current, upNext } = resolveSchedule(jukebox, tracks, nowMs);
+  const track = tracks.find(t => t.id === current?.trackId);
+  // Votes belong to the play stored on chain; a play replayed past it has none yet
+  const samePlay = current?.trackId === jukebox.currentTrackId && current?.startedAtMs === jukebox.currentStartedAtMs;
+
+  return {
+    current_track: current?.trackId ?? null,
+    started_at_ms: current?.startedAtMs ?? null,
+    server_time_ms: nowMs,
+    title: track?.title ?? null,
+    file: track?.blobId ?? null,
+    artist: track?.artist ?? null,
+    duration_ms: track?.durationMs ?? null,
+    tips: track?.tipsMist ?? null,
+    last_buyer: jukebox.lastBuyer,
+    fee: jukebox.feeMist,
+    paused: jukebox.paused,
+    skip_voters: samePlay ? jukebox.skip.votes : [],
+    skip_threshold: jukebox.skip.threshold,
+    queue: upNext.map((r, i) => ({
+      position: i + 1,
+      request_id: r.id,
+      track_id: r.trackId,
+      title: tracks.find(t => t.id === r.trackId)?.title ?? null,
+      requester: r.requester,
+      paid: r.paidMist,
+      requested_at_ms: r.requestedAtMs
+    }))
+  };
+}
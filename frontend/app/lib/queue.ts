@@ -0,0 +1,55 @@
+import { Track } from "@/lib/tracks";
+
+// A paid request as stored in `Jukebox.queue`
+export type PlayRequest = {
+  id: number;          // request_id, assigned by change_track
+  requester: string;
+  trackId: number;
+  paidMist: string;    // u64, kept as a string
+  requestedAtMs: number;
+};
+
+// The scheduling part of JukeboxState
+export type QueueState = {
+  currentTrackId: number | null;
+  currentStartedAtMs: number;
+  queue: PlayRequest[];
+  escrowTimeoutMs: number;
+};
+
+// Mirrors `jukebox::advance`: the object is only updated when someone calls it,
+// so the UI replays the schedule up to `nowMs` itself.
+// `expired` are the requests advance will turn refundable instead of playing.
+export function resolveSchedule(state: QueueState, tracks: Track[], nowMs: number) {
+  const upNext = [...state.queue];
+  const expired: PlayRequest[] = [];
+  let currentTrackId = state.currentTrackId;
+  let startedAtMs = state.currentStartedAtMs;
+
+  for (;;) {
+    const playing = tracks.find((t) => t.id === currentTrackId);
+    const freeAt = currentTrackId !== null && playing ? startedAtMs + playing.durationMs : nowMs;
+
+    // Current track still playing
+    if (currentTrackId !== null && freeAt > nowMs) break;
+
+    const next = upNext.shift();
+    if (!next) {
+      currentTrackId = null;
+      break;
+    }
+    const startsAtMs = Math.max(freeAt, next.requestedAtMs);
+    if (startsAtMs > next.requestedAtMs + state.escrowTimeoutMs) {
+      expired.push(next);
+      continue;
+    }
+    currentTrackId = next.trackId;
+    startedAtMs = startsAtMs;
+  }
+
+  return {
+    current: currentTrackId === null ? null : { trackId: currentTrackId, startedAtMs },
+    upNext,
+    expired,
+  };
+}
@@ -0,0 +1,49 @@
+// In-memory fixed-window rate limits for API routes, per client and server process
+
+type Window = { startedAtMs: number; count: number };
+
+// Survives module reloads in `next dev`
+const globalForRateLimit = globalThis as unknown as { rateLimits?: Map<string, Map<string, Window>> };
+const limits = (globalForRateLimit.rateLimits ??= new Map());
+
+// The client address seen by a trusted reverse proxy (`TRUST_PROXY=1`), null without one.
+// The proxy appends the address it saw to X-Forwarded-For; entries before it come from the client.
+// Route handlers do not see the socket, and Next only fills the header when the client did not send one,
+// so without a proxy there is no address to trust.
+export function trustedClientAddress(request: Request): string | null {
+  if (process.env.TRUST_PROXY !== '1') return null;
+  const hops = (request.headers.get('x-forwarded-for') ?? '').split(',').map((h) => h.trim()).filter(Boolean);
+  return hops[hops.length - 1] ?? null;
+}
+
+// `max` calls per key and window of `windowMs`. Check with `remaining` first, `consume` once the call
+// is accepted, so rejected calls do not count.
+export function createRateLimit(bucket: string, max: number, windowMs: number) {
+  let windows = limits.get(bucket);
+  if (!windows) {
+    windows = new Map();
+    limits.set(bucket, windows);
+  }
+  const calls = windows;
+
+  const current = (key: string): Window => {
+    const now = Date.now();
+    // Drop finished windows so the map only holds recent callers
+    for (const [k, w] of calls) {
+      if (now - w.startedAtMs >= windowMs) calls.delete(k);
+    }
+    return calls.get(key) ?? { startedAtMs: now, count: 0 };
+  };
+
+  return {
+    max,
+    remaining(key: string): number {
+      return Math.max(0, max - current(key).count);
+    },
+    consume(key: string) {
+      const window = current(key);
+      window.count++;
+      calls.set(key, window);
+    },
+  };
+}
@@ -0,0 +1,60 @@
+import { EventId, SuiClient } from "@mysten/sui/client";
+
+import { decodeJukeboxEvent, JukeboxState, jukeboxTarget, moveFields, parseJukebox } from "@/lib/jukebox";
+
+export const ROOMS_PAGE_SIZE = 20;
+
+// A room of the directory: its current state plus who opened it
+export type Room = JukeboxState & {
+  owner: string; // creator; the AdminCap may have changed hands since
+  createdAtMs: number | null;
+};
+
+export type RoomsPage = {
+  rooms: Room[];
+  nextCursor: EventId | null;
+  hasNextPage: boolean;
+};
+
+// Newest first, from `JukeboxCreated` events; rooms whose object no longer parses are skipped
+export async function fetchRoomsPage(
+  client: SuiClient,
+  packageId: string,
+  cursor: EventId | null = null,
+  pageSize = ROOMS_PAGE_SIZE
+): Promise<RoomsPage> {
+  const page = await client.queryEvents({
+    query: { MoveEventType: jukeboxTarget(packageId, "JukeboxCreated") },
+    cursor,
+    limit: pageSize,
+    order: "descending",
+  });
+
+  const created = page.data.flatMap((event) => {
+    const decoded = decodeJukeboxEvent(event, packageId);
+    if (decoded?.kind !== "JukeboxCreated") return [];
+    return [{ id: decoded.json.jukebox_id, owner: decoded.json.owner, createdAtMs: event.timestampMs ? Number(event.timestampMs) : null }];
+  });
+
+  const objects = created.length
+    ? await client.multiGetObjects({ ids: created.map((c) => c.id), options: { showContent: true } })
+    : [];
+
+  const rooms: Room[] = [];
+  objects.forEach((response, i) => {
+    const fields = moveFields(response);
+    if (!fields) return;
+    try {
+      rooms.push({ ...parseJukebox(fields), owner: created[i].owner, createdAtMs: created[i].createdAtMs });
+    } catch {
+      // Not a jukebox of this package version
+    }
+  });
+
+  return { rooms, nextCursor: page.nextCursor ?? null, hasNextPage: page.hasNextPage };
+}
+
+// "/room/0x…" for a room, "/" for the network's default jukebox
+export function roomPath(roomId: string | null, page = ""): string {
+  return roomId ? `/room/${roomId}${page}` : page || "/";
+}
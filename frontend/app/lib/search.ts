@@ -0,0 +1,90 @@
+// Typo-tolerant catalog search over title, artist and album
+
+export type SearchEntry = {
+  key: string;
+  title: string;
+  artist?: string;
+  album?: string;
+};
+
+export type SearchResult<T extends SearchEntry> = {
+  entry: T;
+  score: number;
+};
+
+// A title match counts more than an artist match, which counts more than an album match
+const FIELD_WEIGHTS = { title: 3, artist: 2, album: 1 } as const;
+
+// "Beyoncé – Halo!" -> ["beyonce", "halo"]
+export function tokenize(text: string): string[] {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+// Damerau-Levenshtein distance (adjacent swaps count as one edit)
+function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+// Short words must match exactly, longer ones may have one or two typos
+function allowedTypos(token: string): number {
+  if (token.length <= 3) return 0;
+  return token.length <= 6 ? 1 : 2;
+}
+
+// 1 for a prefix match, less for a substring or a close spelling, 0 for no match
+function tokenScore(token: string, word: string): number {
+  if (word.startsWith(token)) return 1;
+  if (word.includes(token)) return 0.8;
+  const max = allowedTypos(token);
+  if (max === 0) return 0;
+  // Compare against the start of the word too, so half-typed words still match
+  const distance = Math.min(editDistance(token, word), editDistance(token, word.slice(0, token.length)));
+  return distance <= max ? 0.6 - 0.2 * distance : 0;
+}
+
+// Every query word has to match some field; entries are ranked by how well.
+// An empty query returns the whole catalog in its original order.
+export function searchCatalog<T extends SearchEntry>(entries: T[], query: string): SearchResult<T>[] {
+  const tokens = tokenize(query);
+  if (tokens.length === 0) return entries.map((entry) => ({ entry, score: 0 }));
+
+  const results: SearchResult<T>[] = [];
+  for (const entry of entries) {
+    const fields = (Object.keys(FIELD_WEIGHTS) as (keyof typeof FIELD_WEIGHTS)[]).map((field) => ({
+      weight: FIELD_WEIGHTS[field],
+      words: tokenize(entry[field] ?? ""),
+    }));
+
+    let score = 0;
+    for (const token of tokens) {
+      let best = 0;
+      for (const { weight, words } of fields) {
+        for (const word of words) best = Math.max(best, tokenScore(token, word) * weight);
+      }
+      if (best === 0) {
+        score = 0;
+        break;
+      }
+      score += best;
+    }
+    if (score > 0) results.push({ entry, score });
+  }
+
+  return results.sort((a, b) => b.score - a.score || a.entry.title.localeCompare(b.entry.title));
+}
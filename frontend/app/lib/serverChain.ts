@@ -0,0 +1,56 @@
+// Chain access shared by the API routes, resolved per network from the same table as the client
+import { SuiClient } from '@mysten/sui/client';
+import { isValidSuiObjectId, normalizeSuiObjectId } from '@mysten/sui/utils';
+
+import { DEFAULT_NETWORK, isNetworkName, NetworkName, networks } from '@/networks';
+
+export type ServerChain = {
+  network: NetworkName;
+  client: SuiClient;
+  packageId: string;
+  objectId: string; // the room: the network's default jukebox unless `?room=` names another
+};
+
+const clients = new Map<NetworkName, SuiClient>();
+
+export function getServerChain(network: NetworkName): ServerChain {
+  const { url, variables } = networks[network];
+  let client = clients.get(network);
+  if (!client) {
+    client = new SuiClient({ url });
+    clients.set(network, client);
+  }
+  return { network, client, packageId: variables.jukeboxPackageId, objectId: variables.jukeboxObjectId };
+}
+
+function parseRoom(value: string | null): string | null | undefined {
+  if (!value) return null;
+  const id = normalizeSuiObjectId(value);
+  return isValidSuiObjectId(id) ? id : undefined;
+}
+
+// Reads `?network=` (defaulting to testnet) and `?room=`; null when either is invalid
+export function chainFromRequest(request: Request): ServerChain | null {
+  const params = new URL(request.url).searchParams;
+  const network = params.get('network') ?? DEFAULT_NETWORK;
+  const room = parseRoom(params.get('room'));
+  if (!isNetworkName(network) || room === undefined) return null;
+  const chain = getServerChain(network);
+  return room ? { ...chain, objectId: room } : chain;
+}
+
+export function invalidChainResponse(request: Request): Response {
+  const params = new URL(request.url).searchParams;
+  const network = params.get('network') ?? DEFAULT_NETWORK;
+  if (!isNetworkName(network)) {
+    return Response.json(
+      { error: `Unknown network: ${network}`, networks: Object.keys(networks) },
+      { status: 400 }
+    );
+  }
+  return Response.json({ error: `Invalid room: ${params.get('room')}` }, { status: 400 });
+}
+
+export function isJukeboxConfigured(chain: ServerChain): boolean {
+  return Boolean(chain.objectId) && chain.objectId !== 'YOUR_JUKEBOX_OBJECT_ID';
+}
@@ -0,0 +1,22 @@
+// Revenue split configured on the Jukebox (basis points of the fee)
+export const BPS_DENOMINATOR = 10_000;
+
+export type SplitConfig = {
+  artistBps: number;
+  curatorBps: number;
+  curator: string | null;
+};
+
+export type SplitAmounts = {
+  artist: number;    // MIST
+  curator: number;
+  platform: number;  // what the jukebox owner keeps
+};
+
+// Same rounding as `jukebox::share_of` (floor), the platform gets the remainder
+export function computeSplit(feeMist: number, split: SplitConfig): SplitAmounts {
+  const share = (bps: number) => Math.floor((feeMist * bps) / BPS_DENOMINATOR);
+  const artist = share(split.artistBps);
+  const curator = split.curator ? share(split.curatorBps) : 0;
+  return { artist, curator, platform: feeMist - artist - curator };
+}
@@ -0,0 +1,34 @@
+// Browser side of /api/sponsor: the listener builds and signs the kind, the server adds gas and co-signs
+import { SuiClient } from "@mysten/sui/client";
+import { Transaction } from "@mysten/sui/transactions";
+import { toBase64 } from "@mysten/sui/utils";
+
+import { sha256Hex } from "@/lib/storage/uploadProof";
+
+import { sponsorMessage } from "./requestProof";
+
+export type SponsoredTransaction = { bytes: string; signature: string };
+
+export async function requestSponsorship(
+  client: SuiClient,
+  network: string,
+  sender: string,
+  tx: Transaction,
+  // Personal-message signature of the sender over a sponsorMessage, proving the request is theirs
+  signMessage: (message: Uint8Array) => Promise<string>
+): Promise<SponsoredTransaction | { error: string }> {
+  tx.setSenderIfNotSet(sender);
+  const kind = await tx.build({ client, onlyTransactionKind: true });
+  const message = new TextEncoder().encode(
+    sponsorMessage({ address: sender, kindSha256: await sha256Hex(kind), signedAtMs: Date.now() })
+  );
+  const signature = await signMessage(message);
+  const res = await fetch(`/api/sponsor?network=${encodeURIComponent(network)}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ sender, tx_kind: toBase64(kind), message: toBase64(message), signature }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) return { error: data.error || `Sponsor unavailable (${res.status})` };
+  return data;
+}
@@ -0,0 +1,56 @@
+import { SuiClient } from "@mysten/sui/client";
+
+// How long a listener has to sign and execute a sponsored transaction before its gas coin is reused
+export const GAS_RESERVATION_MS = 120_000;
+
+export type GasCoinRef = { objectId: string; version: string; digest: string };
+
+type Reservation = { version: string; sender: string; expiresAtMs: number };
+
+// Sponsor gas coins handed out to transactions that are signed but not executed yet.
+// Two transactions built on the same coin version conflict and can lock the coin until the epoch ends,
+// so a coin serves one transaction at a time, and each sender gets one pending sponsorship.
+export function createGasPool(client: SuiClient, owner: string) {
+  const reservations = new Map<string, Reservation>(); // by coin object ID
+  let lock: Promise<unknown> = Promise.resolve();
+
+  const pick = async (sender: string, minBalance: bigint): Promise<GasCoinRef | { error: string; status: number }> => {
+    const { data: coins } = await client.getCoins({ owner, coinType: "0x2::sui::SUI" });
+    const now = Date.now();
+
+    // A new coin version means the transaction ran (or failed on chain): the coin is free again
+    for (const [objectId, reservation] of reservations) {
+      const coin = coins.find((c) => c.coinObjectId === objectId);
+      if (!coin || coin.version !== reservation.version || reservation.expiresAtMs <= now) {
+        reservations.delete(objectId);
+      }
+    }
+    if ([...reservations.values()].some((r) => r.sender === sender)) {
+      return { error: "A sponsored request is already waiting for your signature", status: 429 };
+    }
+
+    const funded = coins.filter((c) => BigInt(c.balance) >= minBalance);
+    const coin = funded.find((c) => !reservations.has(c.coinObjectId));
+    if (!coin) {
+      return funded.length > 0
+        ? { error: "The gas sponsor is busy, try again in a minute", status: 503 }
+        : { error: "The gas sponsor is out of funds", status: 503 };
+    }
+
+    reservations.set(coin.coinObjectId, { version: coin.version, sender, expiresAtMs: now + GAS_RESERVATION_MS });
+    return { objectId: coin.coinObjectId, version: coin.version, digest: coin.digest };
+  };
+
+  return {
+    // One pick at a time, so two requests never read the pool before either has reserved a coin
+    reserve(sender: string, minBalance: bigint): Promise<GasCoinRef | { error: string; status: number }> {
+      const result = lock.then(() => pick(sender, minBalance));
+      lock = result.catch(() => undefined);
+      return result;
+    },
+    // For transactions that were not handed out after all
+    release(objectId: string) {
+      reservations.delete(objectId);
+    },
+  };
+}
@@ -0,0 +1,144 @@
+// Server-side entry point: picks the sponsor key and policy from the environment
+import { normalizeSuiAddress, toBase64 } from "@mysten/sui/utils";
+import { Transaction } from "@mysten/sui/transactions";
+import { verifyPersonalMessageSignature } from "@mysten/sui/verify";
+
+import { positiveBigIntEnv, positiveIntegerEnv } from "@/lib/env";
+import { jukeboxTarget } from "@/lib/jukebox";
+import { ServerChain } from "@/lib/serverChain";
+import { sha256Hex } from "@/lib/storage/uploadProof";
+
+import { createGasPool } from "./gasPool";
+import { createKeypairSponsor } from "./keypair";
+import { createLocalSponsor } from "./local";
+import { checkTransactionKind, createDailyLimiter, createReplayGuard, normalizeTargets } from "./policy";
+import { parseSponsorMessage, SPONSOR_PROOF_MAX_AGE_MS } from "./requestProof";
+import { Sponsor, SponsorPolicy } from "./types";
+
+// Read once when the module loads, so a malformed value stops the server instead of lifting the limit
+const DAILY_LIMIT = positiveIntegerEnv("SPONSOR_DAILY_LIMIT", 5);
+const MAX_GAS_BUDGET_MIST = positiveBigIntEnv("SPONSOR_MAX_GAS_BUDGET_MIST", BigInt(50_000_000)); // 0.05 SUI
+
+type SponsorState = {
+  sponsor: Sponsor;
+  policy: SponsorPolicy;
+  limiter: ReturnType<typeof createDailyLimiter>;
+  replayGuard: ReturnType<typeof createReplayGuard>;
+  gasPool: ReturnType<typeof createGasPool>;
+};
+
+// Survives module reloads in `next dev`, so the local stand-in keeps its key and limits hold
+const globalForSponsor = globalThis as unknown as { jukeboxSponsors?: Map<string, SponsorState | null> };
+const sponsors = (globalForSponsor.jukeboxSponsors ??= new Map());
+
+// SPONSOR_PRIVATE_KEY funds gas on every network; without it only localnet gets the stand-in
+function createSponsor(chain: ServerChain): Sponsor | null {
+  if (process.env.SPONSOR_PRIVATE_KEY) return createKeypairSponsor(process.env.SPONSOR_PRIVATE_KEY);
+  if (chain.network === "localnet") return createLocalSponsor(chain.client, process.env.SPONSOR_FAUCET_URL || undefined);
+  return null;
+}
+
+function sponsorPolicy(chain: ServerChain): SponsorPolicy {
+  const targets = process.env.SPONSOR_ALLOWED_TARGETS?.split(",").filter(Boolean)
+    ?? [jukeboxTarget(chain.packageId, "change_track")];
+  return {
+    allowedTargets: normalizeTargets(targets),
+    dailyLimit: DAILY_LIMIT,
+    maxGasBudgetMist: MAX_GAS_BUDGET_MIST,
+  };
+}
+
+// Null when sponsoring is not configured for this network
+export function getSponsor(chain: ServerChain): SponsorState | null {
+  if (!sponsors.has(chain.network)) {
+    const sponsor = createSponsor(chain);
+    const policy = sponsorPolicy(chain);
+    sponsors.set(chain.network, sponsor && {
+      sponsor,
+      policy,
+      limiter: createDailyLimiter(policy.dailyLimit),
+      replayGuard: createReplayGuard(SPONSOR_PROOF_MAX_AGE_MS),
+      gasPool: createGasPool(chain.client, sponsor.address),
+    });
+  }
+  return sponsors.get(chain.network) ?? null;
+}
+
+export type SponsoredTransaction = {
+  bytes: string;     // base64 transaction data, for the listener to sign
+  signature: string; // the sponsor's signature over the same bytes
+};
+
+// Null when `message` is a fresh sponsorMessage for these kind bytes, signed by the sender
+async function checkSenderProof(
+  sender: string,
+  kindBytes: Uint8Array,
+  message: Uint8Array,
+  signature: string
+): Promise<string | null> {
+  const claims = parseSponsorMessage(new TextDecoder().decode(message));
+  if (!claims || normalizeSuiAddress(claims.address) !== sender) return "Invalid sponsor request message";
+  if (claims.kindSha256 !== (await sha256Hex(kindBytes))) return "The signed message is for another transaction";
+  if (Math.abs(Date.now() - claims.signedAtMs) > SPONSOR_PROOF_MAX_AGE_MS) {
+    return "Sponsor request signature expired, try again";
+  }
+  try {
+    await verifyPersonalMessageSignature(message, signature, { address: sender });
+  } catch {
+    return "The transaction is not signed by its sender";
+  }
+  return null;
+}
+
+// Wraps the listener's transaction kind with the sponsor's gas and signs it as gas owner.
+// `message` is a sponsorMessage over the kind and `senderSignature` the sender's personal-message signature
+// of it: quotas are per address, so only the address owner may spend them, and each signature counts once.
+export async function sponsorTransaction(
+  chain: ServerChain,
+  state: SponsorState,
+  sender: string,
+  kindBytes: Uint8Array,
+  message: Uint8Array,
+  senderSignature: string
+): Promise<SponsoredTransaction | { error: string; status: number }> {
+  const { sponsor, policy, limiter, replayGuard, gasPool } = state;
+
+  const invalid = await checkSenderProof(sender, kindBytes, message, senderSignature);
+  if (invalid) return { error: invalid, status: 401 };
+  if (!replayGuard.claim(senderSignature)) {
+    return { error: "This sponsor request was already used", status: 409 };
+  }
+
+  if (limiter.remaining(sender) === 0) {
+    return { error: `Daily limit of ${policy.dailyLimit} sponsored requests reached`, status: 429 };
+  }
+
+  const tx = Transaction.fromKind(kindBytes);
+  const rejected = checkTransactionKind(tx, policy.allowedTargets);
+  if (rejected) return { error: rejected, status: 403 };
+
+  await sponsor.prepare?.();
+  const gasCoin = await gasPool.reserve(sender, policy.maxGasBudgetMist);
+  if ("error" in gasCoin) return gasCoin;
+  tx.setSender(sender);
+  tx.setGasOwner(sponsor.address);
+  tx.setGasPayment([gasCoin]);
+
+  let bytes: Uint8Array;
+  try {
+    // The budget is resolved from a dry run
+    bytes = await tx.build({ client: chain.client });
+  } catch (e) {
+    gasPool.release(gasCoin.objectId);
+    return { error: e instanceof Error ? e.message : String(e), status: 422 };
+  }
+
+  const budget = BigInt(tx.getData().gasData.budget ?? 0);
+  if (budget > policy.maxGasBudgetMist) {
+    gasPool.release(gasCoin.objectId);
+    return { error: `Gas budget ${budget} is above the sponsor limit`, status: 403 };
+  }
+
+  limiter.consume(sender);
+  return { bytes: toBase64(bytes), signature: await sponsor.signTransaction(bytes) };
+}
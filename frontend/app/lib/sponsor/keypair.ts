@@ -0,0 +1,21 @@
+import { decodeSuiPrivateKey } from "@mysten/sui/cryptography";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+
+import { Sponsor } from "./types";
+
+// Sponsor backed by a funded key, given as a `suiprivkey1…` string (`sui keytool export`)
+export function createKeypairSponsor(secretKey: string): Sponsor {
+  const { schema, secretKey: raw } = decodeSuiPrivateKey(secretKey);
+  if (schema !== "ED25519") {
+    throw new Error(`Sponsor key must be ED25519, got ${schema}`);
+  }
+  const keypair = Ed25519Keypair.fromSecretKey(raw);
+
+  return {
+    address: keypair.toSuiAddress(),
+    async signTransaction(bytes) {
+      const { signature } = await keypair.signTransaction(bytes);
+      return signature;
+    },
+  };
+}
@@ -0,0 +1,31 @@
+import { SuiClient } from "@mysten/sui/client";
+import { getFaucetHost, requestSuiFromFaucetV2 } from "@mysten/sui/faucet";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+
+import { Sponsor } from "./types";
+
+// Top up from the faucet below this balance
+const MIN_BALANCE_MIST = BigInt(1_000_000_000);
+
+// Dev stand-in for a real sponsor: a throwaway key funded by the localnet faucet.
+// Lives as long as the server process.
+export function createLocalSponsor(client: SuiClient, faucetHost: string = getFaucetHost("localnet")): Sponsor {
+  const keypair = new Ed25519Keypair();
+  const address = keypair.toSuiAddress();
+
+  return {
+    address,
+    async prepare() {
+      const { totalBalance } = await client.getBalance({ owner: address });
+      if (BigInt(totalBalance) >= MIN_BALANCE_MIST) return;
+      const res = await requestSuiFromFaucetV2({ host: faucetHost, recipient: address });
+      if (res.status !== "Success") {
+        throw new Error(`Localnet faucet refused to fund the sponsor: ${JSON.stringify(res.status)}`);
+      }
+    },
+    async signTransaction(bytes) {
+      const { signature } = await keypair.signTransaction(bytes);
+      return signature;
+    },
+  };
+}
@@ -0,0 +1,91 @@
+import { Transaction } from "@mysten/sui/transactions";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+
+// Commands a sponsored transaction may contain; anything else could spend the sponsor's gas coin
+const ALLOWED_COMMANDS = new Set(["MoveCall", "SplitCoins", "MergeCoins"]);
+
+function moveTarget(pkg: string, module: string, fn: string): string {
+  return `${normalizeSuiAddress(pkg)}::${module}::${fn}`;
+}
+
+export function normalizeTargets(targets: string[]): Set<string> {
+  return new Set(
+    targets.map((t) => {
+      const [pkg, module, fn] = t.trim().split("::");
+      return moveTarget(pkg, module, fn);
+    })
+  );
+}
+
+// Any argument of the command (at any depth) that is the gas coin
+function usesGasCoin(value: unknown): boolean {
+  if (!value || typeof value !== "object") return false;
+  if ((value as { $kind?: string }).$kind === "GasCoin") return true;
+  return Object.values(value).some(usesGasCoin);
+}
+
+// Null when the sponsor may pay for this transaction kind, otherwise why not
+export function checkTransactionKind(kind: Transaction, allowedTargets: Set<string>): string | null {
+  const { commands } = kind.getData();
+  if (commands.length === 0) return "Empty transaction";
+
+  for (const command of commands) {
+    if (!ALLOWED_COMMANDS.has(command.$kind)) {
+      return `${command.$kind} commands are not sponsored`;
+    }
+    if (command.MoveCall) {
+      const { package: pkg, module, function: fn } = command.MoveCall;
+      const target = moveTarget(pkg, module, fn);
+      if (!allowedTargets.has(target)) return `${target} is not sponsored`;
+    }
+    // The gas coin belongs to the sponsor: the listener's own coins must pay the fee
+    if (usesGasCoin(command)) {
+      return "The gas coin cannot be used by a sponsored transaction";
+    }
+  }
+  return null;
+}
+
+// In-memory count of sponsored transactions per sender and UTC day
+export function createDailyLimiter(limit: number) {
+  let day = "";
+  const counts = new Map<string, number>();
+
+  const rollOver = () => {
+    const today = new Date().toISOString().slice(0, 10);
+    if (today !== day) {
+      day = today;
+      counts.clear();
+    }
+  };
+
+  return {
+    remaining(address: string): number {
+      rollOver();
+      return Math.max(0, limit - (counts.get(address) ?? 0));
+    },
+    consume(address: string) {
+      rollOver();
+      counts.set(address, (counts.get(address) ?? 0) + 1);
+    },
+  };
+}
+
+// Signatures already spent, kept until they are too old to be accepted anyway
+export function createReplayGuard(maxAgeMs: number) {
+  const seen = new Map<string, number>(); // signature -> when it can be forgotten
+
+  return {
+    // False when the signature was used before; otherwise records it
+    claim(signature: string): boolean {
+      const now = Date.now();
+      for (const [s, forgetAtMs] of seen) {
+        if (forgetAtMs <= now) seen.delete(s);
+      }
+      if (seen.has(signature)) return false;
+      // Twice the age limit covers clocks ahead of the server's
+      seen.set(signature, now + 2 * maxAgeMs);
+      return true;
+    },
+  };
+}
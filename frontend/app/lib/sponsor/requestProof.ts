@@ -0,0 +1,36 @@
+// What the listener signs to ask for a sponsored transaction: the kind's SHA-256 and the time of signing,
+// so a signature is only good for a short while, and the server takes each one once.
+
+// How old a signature may be when it reaches the server
+export const SPONSOR_PROOF_MAX_AGE_MS = 2 * 60 * 1000;
+
+const MESSAGE_TITLE = "Jukebox sponsored request";
+
+export type SponsorClaims = {
+  address: string;
+  kindSha256: string; // hex
+  signedAtMs: number;
+};
+
+// The text the wallet shows; parseSponsorMessage reads it back on the server
+export function sponsorMessage({ address, kindSha256, signedAtMs }: SponsorClaims): string {
+  return [
+    MESSAGE_TITLE,
+    "Asks the jukebox to pay the gas of this transaction. You still approve the transaction itself next.",
+    `Address: ${address}`,
+    `Transaction: ${kindSha256}`,
+    `Signed: ${new Date(signedAtMs).toISOString()}`,
+  ].join("\n");
+}
+
+export function parseSponsorMessage(text: string): SponsorClaims | null {
+  const lines = text.split("\n");
+  if (lines[0] !== MESSAGE_TITLE) return null;
+  const field = (name: string) => lines.find((l) => l.startsWith(`${name}: `))?.slice(name.length + 2);
+
+  const address = field("Address");
+  const kindSha256 = field("Transaction");
+  const signedAtMs = Date.parse(field("Signed") ?? "");
+  if (!address || !kindSha256 || Number.isNaN(signedAtMs)) return null;
+  return { address, kindSha256, signedAtMs };
+}
@@ -0,0 +1,15 @@
+// Gas sponsor for gasless requests: the listener signs as sender, the sponsor as gas owner.
+
+export interface Sponsor {
+  address: string;
+  // Runs before gas coins are picked (the local stand-in tops itself up here)
+  prepare?(): Promise<void>;
+  // Signs the full transaction bytes (gas data included) and returns the serialized signature
+  signTransaction(bytes: Uint8Array): Promise<string>;
+}
+
+export type SponsorPolicy = {
+  allowedTargets: Set<string>; // "<package>::<module>::<function>"
+  dailyLimit: number;          // sponsored transactions per sender per UTC day
+  maxGasBudgetMist: bigint;
+};
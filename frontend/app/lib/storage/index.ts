@@ -0,0 +1,24 @@
+// Server-side entry point: picks the backend from BLOB_STORAGE ("local" by default)
+import path from "node:path";
+
+import { createLocalStorage } from "./local";
+import { BlobScheme, BlobStorage } from "./types";
+import {
+  createWalrusStorage,
+  DEFAULT_WALRUS_AGGREGATOR_URL,
+  DEFAULT_WALRUS_PUBLISHER_URL,
+} from "./walrus";
+
+export function getBlobStorage(scheme?: BlobScheme): BlobStorage {
+  const selected = scheme ?? (process.env.BLOB_STORAGE === "walrus" ? "walrus" : "local");
+
+  if (selected === "walrus") {
+    return createWalrusStorage({
+      publisherUrl: process.env.WALRUS_PUBLISHER_URL || DEFAULT_WALRUS_PUBLISHER_URL,
+      aggregatorUrl: process.env.NEXT_PUBLIC_WALRUS_AGGREGATOR_URL || DEFAULT_WALRUS_AGGREGATOR_URL,
+      epochs: Number(process.env.WALRUS_EPOCHS || 5),
+    });
+  }
+
+  return createLocalStorage(process.env.LOCAL_BLOB_DIR || path.join(process.cwd(), ".blobs"));
+}
@@ -0,0 +1,46 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import { BlobStorage, MAX_BLOB_BYTES } from "./types";
+
+// Dev stand-in for Walrus: content-addressed files on the server's disk.
+// Blobs are served back through /api/storage/[blobId].
+export function createLocalStorage(dir: string): BlobStorage {
+  const blobPath = (blobId: string) => path.join(dir, blobId);
+  const metaPath = (blobId: string) => path.join(dir, `${blobId}.json`);
+
+  return {
+    scheme: "local",
+
+    async put(bytes, contentType) {
+      const blobId = createHash("sha256").update(bytes).digest("hex");
+      await mkdir(dir, { recursive: true });
+      await writeFile(blobPath(blobId), bytes);
+      await writeFile(metaPath(blobId), JSON.stringify({ contentType }));
+      return blobId;
+    },
+
+    async read(blobId) {
+      // IDs are sha256 hex digests; anything else could escape the directory
+      if (!/^[0-9a-f]{64}$/.test(blobId)) return null;
+      const size = await stat(blobPath(blobId)).then((s) => s.size, () => null);
+      if (size === null) return null;
+      if (size > MAX_BLOB_BYTES) {
+        throw new Error(`Blob ${blobId} is larger than ${MAX_BLOB_BYTES} bytes`);
+      }
+      try {
+        const [bytes, meta] = await Promise.all([
+          readFile(blobPath(blobId)),
+          readFile(metaPath(blobId), "utf8"),
+        ]);
+        return {
+          bytes: new Uint8Array(bytes),
+          contentType: JSON.parse(meta).contentType || "application/octet-stream",
+        };
+      } catch {
+        return null;
+      }
+    },
+  };
+}
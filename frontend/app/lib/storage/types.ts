@@ -0,0 +1,37 @@
+// Pluggable blob storage for uploaded audio.
+// On chain a track stores a blob reference "<scheme>:<blobId>" so the player
+// knows which backend to stream it from.
+
+export type BlobScheme = "walrus" | "local";
+
+// Largest audio file the app stores, and so the most a read pulls from a backend
+export const MAX_BLOB_BYTES = 20 * 1024 * 1024;
+
+export interface StoredBlob {
+  bytes: Uint8Array;
+  contentType: string;
+}
+
+export interface BlobStorage {
+  scheme: BlobScheme;
+  // Stores the bytes and returns the backend blob ID
+  put(bytes: Uint8Array, contentType: string): Promise<string>;
+  // Returns null when the blob is unknown to the backend; throws past MAX_BLOB_BYTES
+  read(blobId: string): Promise<StoredBlob | null>;
+}
+
+export function toBlobRef(scheme: BlobScheme, blobId: string): string {
+  return `${scheme}:${blobId}`;
+}
+
+// Legacy references without a scheme point at files bundled in /public/audio
+export function parseBlobRef(ref: string): { scheme: BlobScheme | "static"; blobId: string } {
+  const sep = ref.indexOf(":");
+  if (sep !== -1) {
+    const scheme = ref.slice(0, sep);
+    if (scheme === "walrus" || scheme === "local") {
+      return { scheme, blobId: ref.slice(sep + 1) };
+    }
+  }
+  return { scheme: "static", blobId: ref };
+}
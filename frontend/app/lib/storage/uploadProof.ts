@@ -0,0 +1,41 @@
+// Uploads are signed by the artist's wallet (a personal message over the file's SHA-256), so the
+// upload quota belongs to an address nobody else can claim, whatever the request headers say.
+import { toHex } from "@mysten/sui/utils";
+
+// How old a signature may be when the upload reaches the server
+export const UPLOAD_PROOF_MAX_AGE_MS = 10 * 60 * 1000;
+
+const MESSAGE_TITLE = "Jukebox upload";
+
+export type UploadClaims = {
+  address: string;
+  sha256: string; // hex
+  signedAtMs: number;
+};
+
+export async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  return toHex(new Uint8Array(await crypto.subtle.digest("SHA-256", new Uint8Array(bytes))));
+}
+
+// The text the wallet shows; parseUploadMessage reads it back on the server
+export function uploadMessage({ address, sha256, signedAtMs }: UploadClaims): string {
+  return [
+    MESSAGE_TITLE,
+    "Lets the jukebox store this audio file for you. No transaction, no fee.",
+    `Address: ${address}`,
+    `File: ${sha256}`,
+    `Signed: ${new Date(signedAtMs).toISOString()}`,
+  ].join("\n");
+}
+
+export function parseUploadMessage(text: string): UploadClaims | null {
+  const lines = text.split("\n");
+  if (lines[0] !== MESSAGE_TITLE) return null;
+  const field = (name: string) => lines.find((l) => l.startsWith(`${name}: `))?.slice(name.length + 2);
+
+  const address = field("Address");
+  const sha256 = field("File");
+  const signedAtMs = Date.parse(field("Signed") ?? "");
+  if (!address || !sha256 || Number.isNaN(signedAtMs)) return null;
+  return { address, sha256, signedAtMs };
+}
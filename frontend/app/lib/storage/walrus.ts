@@ -0,0 +1,88 @@
+import { BlobStorage, MAX_BLOB_BYTES } from "./types";
+
+export const DEFAULT_WALRUS_PUBLISHER_URL = "https://publisher.walrus-testnet.walrus.space";
+export const DEFAULT_WALRUS_AGGREGATOR_URL = "https://aggregator.walrus-testnet.walrus.space";
+
+type WalrusOptions = {
+  publisherUrl: string;
+  aggregatorUrl: string;
+  epochs: number; // storage duration, in Walrus epochs
+};
+
+// Response of PUT /v1/blobs: either a fresh upload or an already certified blob
+type WalrusStoreResponse = {
+  newlyCreated?: { blobObject: { blobId: string } };
+  alreadyCertified?: { blobId: string };
+};
+
+export function walrusBlobUrl(aggregatorUrl: string, blobId: string): string {
+  return `${aggregatorUrl.replace(/\/$/, "")}/v1/blobs/${encodeURIComponent(blobId)}`;
+}
+
+// The body up to `limit` bytes; the download is cancelled past it, whatever Content-Length claimed
+async function readCapped(res: Response, limit: number): Promise<Uint8Array> {
+  const declared = Number(res.headers.get("Content-Length"));
+  if (declared > limit) {
+    await res.body?.cancel();
+    throw new Error(`Walrus blob is larger than ${limit} bytes`);
+  }
+  if (!res.body) return new Uint8Array(0);
+
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  const reader = res.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > limit) {
+      await reader.cancel();
+      throw new Error(`Walrus blob is larger than ${limit} bytes`);
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
+
+// Walrus through the HTTP publisher (writes) and aggregator (reads)
+export function createWalrusStorage({ publisherUrl, aggregatorUrl, epochs }: WalrusOptions): BlobStorage {
+  return {
+    scheme: "walrus",
+
+    async put(bytes, contentType) {
+      const res = await fetch(`${publisherUrl.replace(/\/$/, "")}/v1/blobs?epochs=${epochs}`, {
+        method: "PUT",
+        headers: { "Content-Type": contentType },
+        body: bytes as BodyInit,
+      });
+      if (!res.ok) {
+        throw new Error(`Walrus publisher responded ${res.status}: ${await res.text()}`);
+      }
+      const data = (await res.json()) as WalrusStoreResponse;
+      const blobId = data.newlyCreated?.blobObject.blobId ?? data.alreadyCertified?.blobId;
+      if (!blobId) {
+        throw new Error("Walrus publisher did not return a blob ID");
+      }
+      return blobId;
+    },
+
+    async read(blobId) {
+      const res = await fetch(walrusBlobUrl(aggregatorUrl, blobId));
+      if (res.status === 404) return null;
+      if (!res.ok) {
+        throw new Error(`Walrus aggregator responded ${res.status}`);
+      }
+      return {
+        bytes: await readCapped(res, MAX_BLOB_BYTES),
+        contentType: res.headers.get("Content-Type") || "application/octet-stream",
+      };
+    },
+  };
+}
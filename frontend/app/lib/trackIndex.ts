@@ -0,0 +1,136 @@
+// Server-side metadata index: tags and cover art are parsed once per blob and kept in memory
+import { readFile, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { parseBuffer } from 'music-metadata';
+
+import { moveFields, parseJukebox } from '@/lib/jukebox';
+import { ServerChain } from '@/lib/serverChain';
+import { getBlobStorage } from '@/lib/storage';
+import { MAX_BLOB_BYTES, parseBlobRef } from '@/lib/storage/types';
+import { artworkBaseUrl, Track } from '@/lib/tracks';
+
+// Served by /api/tracks
+export type TrackIndexEntry = Track & {
+  tags: { title?: string; artist?: string; album?: string };
+  artworkUrl: string | null;
+};
+
+type Artwork = { data: Uint8Array; format: string };
+type ParsedBlob = { tags: TrackIndexEntry['tags']; artwork: Artwork | null };
+
+// Blob contents never change behind a reference, so entries never go stale; rooms share blobs and their
+// catalogs grow, so the cache is bounded: a Map iterates in insertion order, the first key is the least recently used
+const MAX_CACHED_BLOBS = 200;
+const NO_METADATA: ParsedBlob = { tags: {}, artwork: null };
+
+// Catalogs read by the artwork route, which sees a request per cover
+const CATALOG_TTL_MS = 30_000;
+const MAX_CACHED_CATALOGS = 50;
+
+type Catalog = { blobRefs: Set<string>; fetchedAtMs: number };
+
+const globalForIndex = globalThis as unknown as {
+  trackMetadata?: Map<string, Promise<ParsedBlob | null>>;
+  trackCatalogs?: Map<string, Catalog>;
+};
+const cache = (globalForIndex.trackMetadata ??= new Map());
+const catalogs = (globalForIndex.trackCatalogs ??= new Map());
+
+// Names the room, so the route can check the reference against that room's catalog
+export function artworkUrl(chain: ServerChain, blobRef: string): string {
+  return artworkBaseUrl(chain.network, chain.objectId) + encodeURIComponent(blobRef);
+}
+
+// Walrus and local blobs are content-addressed; bundled files can be replaced on redeploy
+export function isImmutableBlob(blobRef: string): boolean {
+  return parseBlobRef(blobRef).scheme !== 'static';
+}
+
+async function readAudio(blobRef: string): Promise<Uint8Array | null> {
+  const { scheme, blobId } = parseBlobRef(blobRef);
+  if (scheme === 'static') {
+    // Plain file names only, so a reference cannot escape /public/audio
+    if (!/^[\w-]+$/.test(blobId)) return null;
+    const file = path.join(process.cwd(), 'public', 'audio', `${blobId}.mp3`);
+    try {
+      if ((await stat(file)).size > MAX_BLOB_BYTES) return null;
+      return await readFile(file);
+    } catch {
+      return null;
+    }
+  }
+  const blob = await getBlobStorage(scheme).read(blobId);
+  return blob?.bytes ?? null;
+}
+
+// Null when there is no such blob
+async function parseAudio(blobRef: string): Promise<ParsedBlob | null> {
+  const bytes = await readAudio(blobRef);
+  if (!bytes) return null;
+
+  const mm = await parseBuffer(bytes, { mimeType: 'audio/mpeg' });
+  const picture = mm.common.picture?.[0];
+  return {
+    tags: { title: mm.common.title, artist: mm.common.artist, album: mm.common.album },
+    artwork: picture?.data ? { data: picture.data, format: picture.format || 'image/jpeg' } : null,
+  };
+}
+
+export async function readBlobMetadata(blobRef: string): Promise<ParsedBlob> {
+  let parsed = cache.get(blobRef);
+  if (parsed) {
+    cache.delete(blobRef);
+  } else {
+    parsed = parseAudio(blobRef).catch((e) => {
+      console.warn('Metadata parse failed for', blobRef, e);
+      return null;
+    });
+  }
+  cache.set(blobRef, parsed);
+  const oldest = cache.keys().next().value;
+  if (cache.size > MAX_CACHED_BLOBS && oldest !== undefined) cache.delete(oldest);
+
+  const result = await parsed;
+  // Forget misses and failures (unknown reference, unreachable aggregator, bad file): only real blobs take room
+  if (!result && cache.get(blobRef) === parsed) cache.delete(blobRef);
+  return result ?? NO_METADATA;
+}
+
+async function fetchTracks(chain: ServerChain) {
+  const response = await chain.client.getObject({ id: chain.objectId, options: { showContent: true } });
+  const fields = moveFields(response);
+  if (!fields) {
+    throw new Error('Jukebox object not found');
+  }
+  return parseJukebox(fields).tracks;
+}
+
+// Whether the room's catalog has (or had: receipts outlive removed tracks) a track stored at this reference.
+// Only references that pass reach the blob store, so made-up ones cannot make the server download anything.
+export async function isCatalogBlob(chain: ServerChain, blobRef: string): Promise<boolean> {
+  const key = `${chain.network}:${chain.objectId}`;
+  let catalog = catalogs.get(key);
+  if (!catalog || Date.now() - catalog.fetchedAtMs >= CATALOG_TTL_MS) {
+    const tracks = await fetchTracks(chain);
+    catalog = { blobRefs: new Set(tracks.map((t) => t.blobId)), fetchedAtMs: Date.now() };
+    catalogs.delete(key);
+    catalogs.set(key, catalog);
+    const oldest = catalogs.keys().next().value;
+    if (catalogs.size > MAX_CACHED_CATALOGS && oldest !== undefined) catalogs.delete(oldest);
+  }
+  return catalog.blobRefs.has(blobRef);
+}
+
+// The on-chain catalog joined with the tags of each audio blob
+export async function buildTrackIndex(chain: ServerChain): Promise<TrackIndexEntry[]> {
+  const tracks = await fetchTracks(chain);
+
+  // One at a time: a cold cache means downloading every file once
+  const entries: TrackIndexEntry[] = [];
+  for (const track of tracks) {
+    if (track.removed) continue;
+    const { tags, artwork } = await readBlobMetadata(track.blobId);
+    entries.push({ ...track, tags, artworkUrl: artwork ? artworkUrl(chain, track.blobId) : null });
+  }
+  return entries;
+}
@@ -0,0 +1,38 @@
+import { parseBlobRef } from "@/lib/storage/types";
+import { DEFAULT_WALRUS_AGGREGATOR_URL, walrusBlobUrl } from "@/lib/storage/walrus";
+
+// Catalog entries as stored in `Jukebox.tracks` on chain
+export type Track = {
+  id: number;          // index in the on-chain vector
+  title: string;
+  artist: string;      // artist address
+  blobId: string;      // audio blob reference
+  durationMs: number;
+  tipsMist: string;    // all-time tips to the artist for this track
+  removed: boolean;    // taken out by the owner; kept so IDs and past plays still resolve
+};
+
+// Longest track register_track accepts (MAX_TRACK_DURATION_MS)
+export const MAX_TRACK_DURATION_MS = 7_200_000;
+
+// Cover art route for a room, ready for the blob reference to be appended: receipts store this as
+// `artwork_base_url`, and the route only serves references from that room's catalog
+export function artworkBaseUrl(network: string, room: string): string {
+  return `/api/tracks/artwork?${new URLSearchParams({ network, room })}&ref=`;
+}
+
+// Resolve a blob reference to a playable URL
+export function audioUrl(blobRef: string): string {
+  const { scheme, blobId } = parseBlobRef(blobRef);
+  switch (scheme) {
+    case "walrus":
+      return walrusBlobUrl(
+        process.env.NEXT_PUBLIC_WALRUS_AGGREGATOR_URL || DEFAULT_WALRUS_AGGREGATOR_URL,
+        blobId
+      );
+    case "local":
+      return `/api/storage/${blobId}`;
+    default:
+      return `/audio/${blobId}.mp3`; // bundled with the app
+  }
+}
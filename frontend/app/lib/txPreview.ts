@@ -0,0 +1,81 @@
+import { SuiClient } from "@mysten/sui/client";
+import { Transaction } from "@mysten/sui/transactions";
+import { SUI_TYPE_ARG, normalizeStructTag } from "@mysten/sui/utils";
+
+import { formatSui } from "@/lib/format";
+import { explainTxError } from "@/lib/jukebox";
+
+// What signing would cost, from a dry run of the exact transaction
+export type TxPreview = {
+  gasBudgetMist: bigint;   // set on the transaction by the build
+  gasCostMist: bigint;     // computation + storage - rebate, as simulated
+  refundMist: bigint;      // coins sent back to the sender (e.g. change on an overpayment)
+  balanceMist: bigint;
+  balanceAfterMist: bigint;
+};
+
+// Sponsored requests: gas is not the sender's problem, only the amount they pay is
+export async function previewSponsored(
+  client: SuiClient,
+  sender: string,
+  spendMist: bigint
+): Promise<TxPreview | { error: string }> {
+  const { totalBalance } = await client.getBalance({ owner: sender });
+  const balance = BigInt(totalBalance);
+  if (balance < spendMist) {
+    return { error: `Not enough SUI: ${formatSui(String(balance))} available, ${formatSui(String(spendMist))} needed.` };
+  }
+  const zero = BigInt(0);
+  return { gasBudgetMist: zero, gasCostMist: zero, refundMist: zero, balanceMist: balance, balanceAfterMist: balance - spendMist };
+}
+
+// Builds `tx` for `sender` (which also picks its gas budget) and dry-runs it.
+// `spendMist` is what the transaction pays on top of gas, checked against the balance first.
+export async function previewTransaction(
+  client: SuiClient,
+  tx: Transaction,
+  sender: string,
+  spendMist: bigint
+): Promise<TxPreview | { error: string }> {
+  const { totalBalance } = await client.getBalance({ owner: sender });
+  const balance = BigInt(totalBalance);
+  if (balance < spendMist) {
+    return { error: `Not enough SUI: ${formatSui(String(balance))} available, ${formatSui(String(spendMist))} needed before gas.` };
+  }
+
+  tx.setSenderIfNotSet(sender);
+  let bytes: Uint8Array;
+  try {
+    bytes = await tx.build({ client });
+  } catch (e) {
+    // The automatic gas budget comes from a dry run too, so aborts can surface here
+    return { error: explainTxError(e instanceof Error ? e.message : String(e)) };
+  }
+
+  const result = await client.dryRunTransactionBlock({ transactionBlock: bytes });
+  const { status, gasUsed } = result.effects;
+  if (status.status !== "success") {
+    return { error: explainTxError(status.error ?? "The transaction would fail.") };
+  }
+
+  const gasBudget = BigInt(tx.getData().gasData.budget ?? 0);
+  if (balance < spendMist + gasBudget) {
+    return { error: `Not enough SUI: ${formatSui(String(balance))} available, ${formatSui(String(spendMist + gasBudget))} needed with the gas budget.` };
+  }
+
+  const suiType = normalizeStructTag(SUI_TYPE_ARG);
+  const balanceChange = result.balanceChanges
+    .filter((c) => typeof c.owner === "object" && "AddressOwner" in c.owner && c.owner.AddressOwner === sender)
+    .filter((c) => normalizeStructTag(c.coinType) === suiType)
+    .reduce((sum, c) => sum + BigInt(c.amount), BigInt(0));
+
+  const gasCost = BigInt(gasUsed.computationCost) + BigInt(gasUsed.storageCost) - BigInt(gasUsed.storageRebate);
+  return {
+    gasBudgetMist: gasBudget,
+    gasCostMist: gasCost,
+    // Whatever the net balance change does not account for came back to the sender
+    refundMist: spendMist + gasCost + balanceChange,
+    balanceMist: balance,
+    balanceAfterMist: balance + balanceChange,
+  };
+}
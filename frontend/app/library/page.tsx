@@ -0,0 +1,160 @@
+"use client";
+
+import { useState } from "react";
+import { ConnectButton, useCurrentAccount } from "@mysten/dapp-kit";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { trackRef, useLibrary } from "@/hooks/useLibrary";
+import { useRoomId } from "@/hooks/useRoomId";
+import { useTrackCatalog } from "@/hooks/useTrackCatalog";
+import { Library, MAX_PLAYLIST_NAME, Playlist, sameTrack, TrackRef } from "@/lib/library/types";
+
+function newPlaylistId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export default function LibraryPage() {
+  const jukeboxObjectId = useRoomId();
+  const currentAccount = useCurrentAccount();
+  const { tracks, allTracks } = useTrackCatalog();
+  const { library, isPending, error, isSaving, save, isFavorite, toggleFavorite } = useLibrary();
+
+  const [playlistName, setPlaylistName] = useState("");
+  const [adding, setAdding] = useState<Record<string, string>>({}); // playlist ID -> track ID picked
+  const [uiMsg, setUiMsg] = useState<string | null>(null);
+
+  const room = trackRef(jukeboxObjectId, 0).room;
+  const titleOf = (ref: TrackRef) =>
+    ref.room === room
+      ? allTracks.find((t) => t.id === ref.track_id)?.title ?? `Track #${ref.track_id}`
+      : `Track #${ref.track_id} (another room)`;
+
+  const run = (next: Library, doneMsg: string) => {
+    setUiMsg(null);
+    save(next).then(
+      () => setUiMsg(doneMsg),
+      (e) => setUiMsg(`Not saved: ${e?.message || String(e)}`)
+    );
+  };
+
+  const updatePlaylist = (id: string, change: (p: Playlist) => Playlist, doneMsg: string) =>
+    run({ ...library, playlists: library.playlists.map((p) => (p.id === id ? change(p) : p)) }, doneMsg);
+
+  const createPlaylist = () => {
+    const name = playlistName.trim();
+    if (!name || name.length > MAX_PLAYLIST_NAME) {
+      setUiMsg(`Playlist names are 1 to ${MAX_PLAYLIST_NAME} characters long.`);
+      return;
+    }
+    run({ ...library, playlists: [...library.playlists, { id: newPlaylistId(), name, tracks: [] }] }, `“${name}” created.`);
+    setPlaylistName("");
+  };
+
+  const addToPlaylist = (playlist: Playlist) => {
+    const trackId = adding[playlist.id];
+    if (trackId === undefined || trackId === "") return;
+    const ref = trackRef(jukeboxObjectId, Number(trackId));
+    if (playlist.tracks.some((t) => sameTrack(t, ref))) return;
+    updatePlaylist(playlist.id, (p) => ({ ...p, tracks: [...p.tracks, ref] }), `Added to “${playlist.name}”.`);
+  };
+
+  return (
+    <div className="bg-white text-black min-h-screen p-6 flex justify-center">
+      <Card className="w-full max-w-2xl">
+        <CardHeader>
+          <CardTitle>My library</CardTitle>
+          <CardDescription>
+            Favorites and playlists kept for your wallet. Saving asks your wallet to sign a message once a day; it is
+            not a transaction and costs nothing.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {!currentAccount && <ConnectButton />}
+          {isPending && <div className="text-sm">Loading…</div>}
+          {error && <div className="text-sm text-red-600">{String(error.message)}</div>}
+          {uiMsg && <div className="text-sm">{uiMsg}</div>}
+
+          {currentAccount && (
+            <>
+              <section className="space-y-2">
+                <h3 className="font-medium">Catalog of this room</h3>
+                <ul className="space-y-1 text-sm">
+                  {tracks.map((t) => (
+                    <li key={t.id} className="flex items-center gap-2">
+                      <button
+                        className="w-6"
+                        disabled={isSaving}
+                        onClick={() =>
+                          toggleFavorite(jukeboxObjectId, t.id).catch((e) => setUiMsg(`Not saved: ${e?.message || String(e)}`))
+                        }
+                        title={isFavorite(jukeboxObjectId, t.id) ? "Remove from favorites" : "Add to favorites"}
+                      >
+                        {isFavorite(jukeboxObjectId, t.id) ? "★" : "☆"}
+                      </button>
+                      <span>{t.title}</span>
+                    </li>
+                  ))}
+                </ul>
+                {tracks.length === 0 && <div className="text-sm">No tracks in this room yet.</div>}
+              </section>
+
+              <section className="space-y-2">
+                <h3 className="font-medium">Playlists</h3>
+                <div className="flex gap-2">
+                  <Input value={playlistName} onChange={(e) => setPlaylistName(e.target.value)} placeholder="New playlist name" />
+                  <Button onClick={createPlaylist} disabled={isSaving}>Create</Button>
+                </div>
+                {library.playlists.map((p) => (
+                  <div key={p.id} className="rounded-md border p-3 text-sm space-y-2">
+                    <div className="flex items-center gap-2">
+                      <span className="flex-1 font-medium">{p.name}</span>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={isSaving}
+                        onClick={() => run({ ...library, playlists: library.playlists.filter((q) => q.id !== p.id) }, `“${p.name}” deleted.`)}
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                    <ol className="list-decimal pl-5 space-y-1">
+                      {p.tracks.map((ref) => (
+                        <li key={`${ref.room}:${ref.track_id}`}>
+                          <span className="mr-2">{titleOf(ref)}</span>
+                          <button
+                            className="underline"
+                            disabled={isSaving}
+                            onClick={() =>
+                              updatePlaylist(p.id, (q) => ({ ...q, tracks: q.tracks.filter((t) => !sameTrack(t, ref)) }), "Removed.")
+                            }
+                          >
+                            remove
+                          </button>
+                        </li>
+                      ))}
+                    </ol>
+                    <div className="flex gap-2">
+                      <select
+                        className="h-9 flex-1 rounded-md border px-3 text-sm"
+                        value={adding[p.id] ?? ""}
+                        onChange={(e) => setAdding({ ...adding, [p.id]: e.target.value })}
+                      >
+                        <option value="">Add a track…</option>
+                        {tracks.map((t) => (
+                          <option key={t.id} value={t.id}>{t.title}</option>
+                        ))}
+                      </select>
+                      <Button variant="outline" onClick={() => addToPlaylist(p)} disabled={isSaving}>Add</Button>
+                    </div>
+                  </div>
+                ))}
+              </section>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+"use client";
+
+import { useState } from "react";
+import {
+  ConnectButton,
+  useCurrentAccount,
+  useSignAndExecuteTransaction,
+  useSuiClient,
+  useSuiClientContext,
+} from "@mysten/dapp-kit";
+import { Transaction } from "@mysten/sui/transactions";
+import { formatAddress } from "@mysten/sui/utils";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useJukebox } from "@/hooks/useJukebox";
+import { useReceiptOptIn, useReceipts } from "@/hooks/useReceipts";
+import { useRoomId } from "@/hooks/useRoomId";
+import { explorerObjectUrl, formatSui } from "@/lib/format";
+import { claimReceiptsTx, explainTxError, setReceiptsTx } from "@/lib/jukebox";
+import { useNetworkVariable } from "@/networkConfig";
+
+export default function ReceiptsPage() {
+  const jukeboxPackageId = useNetworkVariable("jukeboxPackageId");
+  const jukeboxObjectId = useRoomId();
+
+  const suiClient = useSuiClient();
+  const { network } = useSuiClientContext();
+  const currentAccount = useCurrentAccount();
+  const { mutate: signAndExecute } = useSignAndExecuteTransaction();
+  const { jukebox } = useJukebox();
+  const { receipts, isPending, error, hasNextPage, fetchNextPage, isFetchingNextPage, refetch } = useReceipts();
+  const { optedIn, pendingCount, isPending: optInPending, refetch: refetchOptIn } = useReceiptOptIn();
+  const ids = { packageId: jukeboxPackageId, objectId: jukeboxObjectId };
+
+  const [waiting, setWaiting] = useState(false);
+  const [uiMsg, setUiMsg] = useState<string | null>(null);
+
+  const run = (label: string, tx: Transaction, doneMsg: string) => {
+    setUiMsg(null);
+    setWaiting(true);
+    signAndExecute(
+      { transaction: tx },
+      {
+        onSuccess: async ({ digest }) => {
+          await suiClient.waitForTransaction({ digest });
+          await Promise.all([refetchOptIn(), refetch()]);
+          setUiMsg(doneMsg);
+          setWaiting(false);
+        },
+        onError: (err) => {
+          setUiMsg(`${label} failed: ${explainTxError(String((err as any)?.message || err))}`);
+          setWaiting(false);
+        },
+      },
+    );
+  };
+
+  const toggleReceipts = () => {
+    const enabled = !optedIn;
+    if (!enabled && pendingCount > 0 && !window.confirm(`Drop your ${pendingCount} unclaimed receipts in this room?`)) return;
+    run(
+      "Update",
+      setReceiptsTx(ids, enabled),
+      enabled ? "Your next plays in this room are recorded for a receipt." : "No more receipts in this room."
+    );
+  };
+
+  return (
+    <div className="bg-white text-black min-h-screen p-6 flex justify-center">
+      <Card className="w-full max-w-4xl">
+        <CardHeader>
+          <CardTitle>My receipts</CardTitle>
+          <CardDescription>
+            A collectible for each of your requests that played, minted to your wallet when you claim it.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!currentAccount && <ConnectButton />}
+
+          {currentAccount && jukebox && (
+            <div className="flex items-center gap-3 text-sm">
+              <span>
+                Receipts in <b>{jukebox.name}</b>: {optInPending ? "…" : optedIn ? "on" : "off"}
+              </span>
+              <Button variant="outline" size="sm" onClick={toggleReceipts} disabled={waiting || optInPending}>
+                {optedIn ? "Turn off" : "Turn on"}
+              </Button>
+              {optedIn && (
+                <Button
+                  size="sm"
+                  onClick={() => run("Claim", claimReceiptsTx(ids), `${pendingCount} receipt${pendingCount === 1 ? "" : "s"} minted.`)}
+                  disabled={waiting || pendingCount === 0}
+                >
+                  Claim {pendingCount} receipt{pendingCount === 1 ? "" : "s"}
+                </Button>
+              )}
+            </div>
+          )}
+          {currentAccount && jukebox && (
+            <p className="text-sm text-slate-600">
+              Plays are recorded until you claim them (at most 20 at a time); you pay the receipts&apos; storage in gas
+              when you claim.
+            </p>
+          )}
+
+          {uiMsg && <div className="text-sm">{uiMsg}</div>}
+          {error && <div className="text-sm text-red-600">Could not load receipts: {String(error.message)}</div>}
+
+          <div className="grid grid-cols-2 gap-4 sm:grid-cols-3">
+            {receipts.map((r) => {
+              const image = r.displayImageUrl || r.imageUrl;
+              const objectUrl = explorerObjectUrl(network, r.id);
+              return (
+                <div key={r.id} className="rounded-md border p-2 text-sm">
+                  {image ? (
+                    <img src={image} alt="" className="aspect-square w-full rounded object-cover" />
+                  ) : (
+                    <div className="aspect-square w-full rounded bg-slate-100" />
+                  )}
+                  <div className="mt-2 font-medium">{r.title}</div>
+                  <div className="text-slate-600" title={r.artist}>{formatAddress(r.artist)} · {r.room}</div>
+                  <div>{new Date(r.playedAtMs).toLocaleString()}</div>
+                  <div>
+                    {formatSui(r.paidMist)}
+                    {objectUrl && (
+                      <>
+                        {" · "}
+                        <a className="underline" href={objectUrl} target="_blank" rel="noreferrer">Explorer</a>
+                      </>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {isPending && <div className="text-sm">Loading…</div>}
+          {currentAccount && !isPending && receipts.length === 0 && !error && (
+            <div className="text-sm">No receipts yet.</div>
+          )}
+          {hasNextPage && (
+            <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+              {isFetchingNextPage ? "Loading…" : "More receipts"}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
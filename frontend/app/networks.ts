@@ -0,0 +1,57 @@
+// Plain network table shared by the dapp-kit config and the API routes
+import { getFullnodeUrl } from "@mysten/sui/client";
+import {
+  DEVNET_JUKEBOX_PACKAGE_ID,
+  DEVNET_JUKEBOX_OBJECT_ID,
+  TESTNET_JUKEBOX_PACKAGE_ID,
+  TESTNET_JUKEBOX_OBJECT_ID,
+  MAINNET_JUKEBOX_PACKAGE_ID,
+  MAINNET_JUKEBOX_OBJECT_ID,
+  LOCALNET_JUKEBOX_PACKAGE_ID,
+  LOCALNET_JUKEBOX_OBJECT_ID,
+} from "./constants";
+
+export type NetworkName = "devnet" | "testnet" | "mainnet" | "localnet";
+
+export type NetworkVariables = {
+  jukeboxPackageId: string;
+  jukeboxObjectId: string;
+};
+
+export const DEFAULT_NETWORK: NetworkName = "testnet";
+
+// NEXT_PUBLIC_SUI_RPC_URL_<NETWORK> points a network at a custom RPC node
+export const networks: Record<NetworkName, { url: string; variables: NetworkVariables }> = {
+  devnet: {
+    url: process.env.NEXT_PUBLIC_SUI_RPC_URL_DEVNET || getFullnodeUrl("devnet"),
+    variables: {
+      jukeboxPackageId: DEVNET_JUKEBOX_PACKAGE_ID,
+      jukeboxObjectId: DEVNET_JUKEBOX_OBJECT_ID,
+    },
+  },
+  testnet: {
+    url: process.env.NEXT_PUBLIC_SUI_RPC_URL_TESTNET || getFullnodeUrl("testnet"),
+    variables: {
+      jukeboxPackageId: process.env.NEXT_PUBLIC_JUKEBOX_PACKAGE_ID || TESTNET_JUKEBOX_PACKAGE_ID,
+      jukeboxObjectId: process.env.NEXT_PUBLIC_JUKEBOX_OBJECT_ID || TESTNET_JUKEBOX_OBJECT_ID,
+    },
+  },
+  mainnet: {
+    url: process.env.NEXT_PUBLIC_SUI_RPC_URL_MAINNET || getFullnodeUrl("mainnet"),
+    variables: {
+      jukeboxPackageId: MAINNET_JUKEBOX_PACKAGE_ID,
+      jukeboxObjectId: MAINNET_JUKEBOX_OBJECT_ID,
+    },
+  },
+  localnet: {
+    url: process.env.NEXT_PUBLIC_SUI_RPC_URL_LOCALNET || getFullnodeUrl("localnet"),
+    variables: {
+      jukeboxPackageId: LOCALNET_JUKEBOX_PACKAGE_ID,
+      jukeboxObjectId: LOCALNET_JUKEBOX_OBJECT_ID,
+    },
+  },
+};
+
+export function isNetworkName(value: string): value is NetworkName {
+  return Object.prototype.hasOwnProperty.call(networks, value);
+}
@@ -0,0 +1,179 @@
+"use client";
+
+import { useState } from "react";
+import {
+  ConnectButton,
+  useCurrentAccount,
+  useSignAndExecuteTransaction,
+  useSuiClient,
+} from "@mysten/dapp-kit";
+import { Transaction } from "@mysten/sui/transactions";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useJukebox } from "@/hooks/useJukebox";
+import { usePasses } from "@/hooks/usePasses";
+import { useRoomId } from "@/hooks/useRoomId";
+import { formatSui } from "@/lib/format";
+import {
+  buyCreditsTx,
+  buyPassTx,
+  explainTxError,
+  JukeboxIds,
+  ListenerPass,
+  passUsableAt,
+  refundCreditsTx,
+} from "@/lib/jukebox";
+import { useNetworkVariable } from "@/networkConfig";
+
+const MAX_PASS_CREDITS = 100; // MAX_PASS_CREDITS in jukebox.move
+
+function formatMinutes(ms: number): string {
+  const minutes = Math.round(ms / 60_000);
+  return minutes >= 60 && minutes % 60 === 0 ? `${minutes / 60} h` : `${minutes} min`;
+}
+
+function passStatus(pass: ListenerPass, nowMs: number): string {
+  if (pass.expiresAtMs === null) {
+    return `${pass.credits} credit${pass.credits === 1 ? "" : "s"} left (${formatSui(pass.creditValueMist)} each)`;
+  }
+  const usableAt = passUsableAt(pass, nowMs);
+  if (usableAt === null) return "Expired";
+  const until = `unlimited until ${new Date(pass.expiresAtMs).toLocaleString()}`;
+  return usableAt > nowMs ? `${until}, next request at ${new Date(usableAt).toLocaleTimeString()}` : until;
+}
+
+export default function PassesPage() {
+  const jukeboxPackageId = useNetworkVariable("jukeboxPackageId");
+  const jukeboxObjectId = useRoomId();
+  const ids: JukeboxIds = { packageId: jukeboxPackageId, objectId: jukeboxObjectId };
+
+  const suiClient = useSuiClient();
+  const currentAccount = useCurrentAccount();
+  const { mutate: signAndExecute } = useSignAndExecuteTransaction();
+  const { jukebox } = useJukebox();
+  const { passes, isPending: passesPending, refetch: refetchPasses } = usePasses();
+
+  const [creditsInput, setCreditsInput] = useState("10");
+  const [waiting, setWaiting] = useState(false);
+  const [uiMsg, setUiMsg] = useState<string | null>(null);
+
+  const credits = Number(creditsInput);
+  const validCredits = Number.isInteger(credits) && credits >= 1 && credits <= MAX_PASS_CREDITS;
+  const passPolicy = jukebox?.passPolicy;
+  const nowMs = Date.now();
+
+  const run = (label: string, tx: Transaction, doneMsg: string) => {
+    setUiMsg(null);
+    setWaiting(true);
+    signAndExecute(
+      { transaction: tx },
+      {
+        onSuccess: async ({ digest }) => {
+          await suiClient.waitForTransaction({ digest });
+          await refetchPasses();
+          setUiMsg(`${label}: done. ${doneMsg}`);
+          setWaiting(false);
+        },
+        onError: (err) => {
+          setUiMsg(`${label} failed: ${explainTxError(String((err as any)?.message || err))}`);
+          setWaiting(false);
+        },
+      },
+    );
+  };
+
+  const handleBuyCredits = () => {
+    if (!jukebox || !validCredits) {
+      setUiMsg(`Buy between 1 and ${MAX_PASS_CREDITS} credits.`);
+      return;
+    }
+    run("Credit pass", buyCreditsTx(ids, { credits, feeMist: jukebox.feeMist }), "Requests in this room can now use it.");
+  };
+
+  return (
+    <div className="bg-white text-black min-h-screen p-6 flex justify-center">
+      <Card className="w-full max-w-xl">
+        <CardHeader>
+          <CardTitle>Jukebox passes</CardTitle>
+          <CardDescription>
+            Prepay requests in this room, then request with one signature and no coin.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {!currentAccount && <ConnectButton />}
+
+          {currentAccount && (
+            <section className="space-y-2">
+              <h3 className="font-medium">Your passes</h3>
+              {passesPending && <div className="text-sm">Loading…</div>}
+              {!passesPending && passes.length === 0 && <div className="text-sm">No pass for this room yet.</div>}
+              <ul className="space-y-1 text-sm">
+                {passes.map((p) => (
+                  <li key={p.id} className="flex items-center gap-2">
+                    <span className="flex-1">{passStatus(p, nowMs)}</span>
+                    {p.expiresAtMs === null && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() =>
+                          run(
+                            p.credits > 0 ? "Refund" : "Burn",
+                            refundCreditsTx(ids, p.id),
+                            p.credits > 0
+                              ? `${formatSui(String(BigInt(p.creditValueMist) * BigInt(p.credits)))} sent back to your wallet.`
+                              : "The pass is gone from your wallet."
+                          )
+                        }
+                        disabled={waiting}
+                      >
+                        {p.credits > 0 ? "Refund unused credits" : "Burn empty pass"}
+                      </Button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          {jukebox && (
+            <section className="space-y-2">
+              <h3 className="font-medium">Credits</h3>
+              <p className="text-sm text-slate-600">
+                One credit is one request at today&apos;s fee ({formatSui(jukebox.feeMist)}). Credits are held like
+                any request fee until the track plays, and refunded the same way if it never does. Unused credits can be
+                refunded at any time; the pass is burnt.
+              </p>
+              <div className="flex gap-2">
+                <Input value={creditsInput} onChange={(e) => setCreditsInput(e.target.value)} placeholder="Credits" />
+                <Button onClick={handleBuyCredits} disabled={waiting || !currentAccount || jukebox.paused}>
+                  {validCredits ? `Buy for ${formatSui(String(BigInt(jukebox.feeMist) * BigInt(credits)))}` : "Buy"}
+                </Button>
+              </div>
+            </section>
+          )}
+
+          {passPolicy && passPolicy.priceMist !== "0" && (
+            <section className="space-y-2">
+              <h3 className="font-medium">Unlimited pass</h3>
+              <p className="text-sm text-slate-600">
+                As many requests as you like for {formatMinutes(passPolicy.durationMs)}, one every{" "}
+                {formatMinutes(passPolicy.minIntervalMs)}.
+              </p>
+              <Button
+                onClick={() => run("Unlimited pass", buyPassTx(ids, passPolicy.priceMist), "Requests in this room can now use it.")}
+                disabled={waiting || !currentAccount || Boolean(jukebox?.paused)}
+              >
+                Buy for {formatSui(passPolicy.priceMist)}
+              </Button>
+            </section>
+          )}
+
+          {jukebox?.paused && <div className="text-sm">Requests are paused by the jukebox owner; passes are not sold meanwhile.</div>}
+          {uiMsg && <div className="text-sm">{uiMsg}</div>}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
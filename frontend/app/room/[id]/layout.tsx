@@ -0,0 +1,19 @@
+import { notFound } from "next/navigation";
+import { isValidSuiObjectId, normalizeSuiObjectId } from "@mysten/sui/utils";
+
+import RoomProvider from "@/components/RoomProvider";
+
+// Every page under /room/[id] acts on that jukebox instead of the network's default one
+export default async function RoomLayout({
+  children,
+  params,
+}: {
+  children: React.ReactNode;
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  const roomId = normalizeSuiObjectId(id);
+  if (!isValidSuiObjectId(roomId)) notFound();
+
+  return <RoomProvider roomId={roomId}>{children}</RoomProvider>;
+}
@@ -0,0 +1,9 @@
+import App from "@/App";
+
+export default function RoomPage() {
+  return (
+    <div className="bg-slate-50 min-h-screen">
+      <App />
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import {
+  useCurrentAccount,
+  useSignAndExecuteTransaction,
+  useSuiClient,
+  useSuiClientContext,
+} from "@mysten/dapp-kit";
+import { EventId } from "@mysten/sui/client";
+import { formatAddress } from "@mysten/sui/utils";
+import { useInfiniteQuery } from "@tanstack/react-query";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { formatSui, parseSuiToMist } from "@/lib/format";
+import { createJukeboxTx, decodeJukeboxEvent, explainTxError } from "@/lib/jukebox";
+import { fetchRoomsPage, roomPath } from "@/lib/rooms";
+import { useNetworkVariable } from "@/networkConfig";
+
+const MAX_NAME_BYTES = 64; // MAX_NAME_LENGTH in jukebox.move
+
+export default function RoomsPage() {
+  const jukeboxPackageId = useNetworkVariable("jukeboxPackageId");
+  const defaultRoomId = useNetworkVariable("jukeboxObjectId");
+
+  const router = useRouter();
+  const suiClient = useSuiClient();
+  const { network } = useSuiClientContext();
+  const currentAccount = useCurrentAccount();
+  const { mutate: signAndExecute } = useSignAndExecuteTransaction();
+
+  const [nameInput, setNameInput] = useState("");
+  const [feeInput, setFeeInput] = useState("1");
+  const [waiting, setWaiting] = useState(false);
+  const [uiMsg, setUiMsg] = useState<string | null>(null);
+
+  const directory = useInfiniteQuery({
+    queryKey: ["jukebox-rooms", network, jukeboxPackageId],
+    queryFn: ({ pageParam }) => fetchRoomsPage(suiClient, jukeboxPackageId, pageParam),
+    initialPageParam: null as EventId | null,
+    getNextPageParam: (last) => (last.hasNextPage ? last.nextCursor : undefined),
+    enabled: Boolean(jukeboxPackageId),
+  });
+
+  const rooms = useMemo(() => directory.data?.pages.flatMap((p) => p.rooms) ?? [], [directory.data]);
+
+  const createRoom = () => {
+    const name = nameInput.trim();
+    const byteLength = new TextEncoder().encode(name).length;
+    if (byteLength === 0 || byteLength > MAX_NAME_BYTES) {
+      setUiMsg(`Give the room a name of at most ${MAX_NAME_BYTES} bytes.`);
+      return;
+    }
+    const feeMist = parseSuiToMist(feeInput);
+    if (feeMist === null) {
+      setUiMsg("Enter the request fee in SUI, e.g. 0.5");
+      return;
+    }
+    setUiMsg(null);
+    setWaiting(true);
+
+    signAndExecute(
+      { transaction: createJukeboxTx(jukeboxPackageId, { name, feeMist }) },
+      {
+        onSuccess: async ({ digest }) => {
+          const { events } = await suiClient.waitForTransaction({ digest, options: { showEvents: true } });
+          const created = events?.map((e) => decodeJukeboxEvent(e, jukeboxPackageId)).find((e) => e?.kind === "JukeboxCreated");
+          setWaiting(false);
+          if (created?.kind === "JukeboxCreated") {
+            // The AdminCap is in the wallet: the owner lands on their room
+            router.push(roomPath(created.json.jukebox_id));
+          } else {
+            setUiMsg("Room created.");
+            void directory.refetch();
+          }
+        },
+        onError: (err) => {
+          setUiMsg(`Creating the room failed: ${explainTxError(String((err as any)?.message || err))}`);
+          setWaiting(false);
+        },
+      },
+    );
+  };
+
+  return (
+    <div className="bg-white text-black min-h-screen p-6 flex flex-col items-center gap-6">
+      <Card className="w-full max-w-4xl">
+        <CardHeader>
+          <CardTitle>Rooms</CardTitle>
+          <CardDescription>Each room has its own catalog, queue and fee. Newest first.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {directory.error && (
+            <div className="text-sm text-red-600">Could not load rooms: {String(directory.error.message)}</div>
+          )}
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left border-b">
+                <th className="py-2">Room</th>
+                <th>Fee</th>
+                <th>Tracks</th>
+                <th>Queue</th>
+                <th>Opened by</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rooms.map((room) => (
+                <tr key={room.id} className="border-b">
+                  <td className="py-2">
+                    <Link
+                      className="underline"
+                      href={room.id === defaultRoomId ? "/" : roomPath(room.id)}
+                    >
+                      {room.name}
+                    </Link>
+                    {room.id === defaultRoomId && <span className="ml-2 text-slate-500">(default)</span>}
+                    {room.paused && <span className="ml-2 text-slate-500">(paused)</span>}
+                  </td>
+                  <td>{formatSui(room.feeMist)}</td>
+                  <td>{room.tracks.length}</td>
+                  <td>{room.queue.length}</td>
+                  <td title={room.owner}>{formatAddress(room.owner)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {directory.isPending && <div className="text-sm">Loading…</div>}
+          {!directory.isPending && rooms.length === 0 && !directory.error && (
+            <div className="text-sm">No rooms yet.</div>
+          )}
+          {directory.hasNextPage && (
+            <Button
+              variant="outline"
+              onClick={() => directory.fetchNextPage()}
+              disabled={directory.isFetchingNextPage}
+            >
+              {directory.isFetchingNextPage ? "Loading…" : "Older rooms"}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="w-full max-w-4xl">
+        <CardHeader>
+          <CardTitle>Create a room</CardTitle>
+          <CardDescription>
+            You get the room&apos;s AdminCap: set its fee, split and payout later from its admin page.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex flex-wrap gap-2">
+            <Input
+              className="flex-1 min-w-64"
+              value={nameInput}
+              onChange={(e) => setNameInput(e.target.value)}
+              placeholder="Room name"
+            />
+            <Input
+              className="w-32"
+              value={feeInput}
+              onChange={(e) => setFeeInput(e.target.value)}
+              placeholder="Fee (SUI)"
+            />
+            <Button onClick={createRoom} disabled={waiting || !currentAccount || !jukeboxPackageId}>
+              {waiting ? "Waiting…" : "Create room"}
+            </Button>
+          </div>
+          {!currentAccount && <div className="text-sm text-slate-600">Connect a wallet to create a room.</div>}
+          {uiMsg && <div className="text-sm">{uiMsg}</div>}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+"use client";
+
+import { useState } from "react";
+import {
+  ConnectButton,
+  useCurrentAccount,
+  useSignAndExecuteTransaction,
+  useSignPersonalMessage,
+  useSuiClient,
+} from "@mysten/dapp-kit";
+import { parseBlob } from "music-metadata";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useRoomId } from "@/hooks/useRoomId";
+import { useTrackCatalog } from "@/hooks/useTrackCatalog";
+import { registerTrackTx } from "@/lib/jukebox";
+import { sha256Hex, uploadMessage } from "@/lib/storage/uploadProof";
+import { MAX_TRACK_DURATION_MS } from "@/lib/tracks";
+import { useNetworkVariable } from "@/networkConfig";
+
+type Step = "idle" | "uploading" | "registering" | "done";
+
+export default function UploadPage() {
+  const jukeboxPackageId = useNetworkVariable("jukeboxPackageId");
+  const jukeboxObjectId = useRoomId();
+
+  const suiClient = useSuiClient();
+  const currentAccount = useCurrentAccount();
+  const { mutate: signAndExecute } = useSignAndExecuteTransaction();
+  const { mutateAsync: signPersonalMessage } = useSignPersonalMessage();
+  const { refetch: refetchCatalog } = useTrackCatalog();
+
+  const [file, setFile] = useState<File | null>(null);
+  const [title, setTitle] = useState("");
+  const [tagArtist, setTagArtist] = useState<string | undefined>();
+  const [durationMs, setDurationMs] = useState<number | null>(null);
+  const [step, setStep] = useState<Step>("idle");
+  const [uiMsg, setUiMsg] = useState<string | null>(null);
+
+  // Read ID3 tags locally so the artist can check them before uploading
+  const handleFile = async (picked: File | null) => {
+    setFile(picked);
+    setUiMsg(null);
+    setStep("idle");
+    setDurationMs(null);
+    setTagArtist(undefined);
+    if (!picked) return;
+
+    try {
+      const mm = await parseBlob(picked);
+      setTitle(mm.common.title || picked.name.replace(/\.mp3$/i, ""));
+      setTagArtist(mm.common.artist);
+      if (mm.format.duration) {
+        setDurationMs(Math.round(mm.format.duration * 1000));
+      }
+    } catch (e) {
+      console.warn("Metadata parse failed for", picked.name, e);
+      setTitle(picked.name.replace(/\.mp3$/i, ""));
+    }
+  };
+
+  const handleUpload = async () => {
+    if (!file || !title.trim() || durationMs === null) return;
+    if (durationMs <= 0 || durationMs > MAX_TRACK_DURATION_MS) {
+      setUiMsg("Tracks must be longer than zero and at most 2 hours.");
+      return;
+    }
+    if (!jukeboxPackageId || !jukeboxObjectId) {
+      setUiMsg("Jukebox IDs are not configured for this network.");
+      return;
+    }
+
+    try {
+      setUiMsg(null);
+      setStep("uploading");
+
+      // 1. Sign for the file (uploads are counted per wallet), then store the audio blob
+      const sha256 = await sha256Hex(new Uint8Array(await file.arrayBuffer()));
+      const message = uploadMessage({ address: currentAccount!.address, sha256, signedAtMs: Date.now() });
+      const proof = await signPersonalMessage({ message: new TextEncoder().encode(message) });
+      const body = new FormData();
+      body.append("file", file);
+      body.append("message", proof.bytes);
+      body.append("signature", proof.signature);
+      const res = await fetch("/api/storage", { method: "POST", body });
+      const data = await res.json();
+      if (!res.ok || data.error) {
+        throw new Error(data.details || data.error || `Upload failed (${res.status})`);
+      }
+
+      // 2. Register the blob on chain (the connected wallet becomes the artist)
+      setStep("registering");
+      const tx = registerTrackTx(
+        { packageId: jukeboxPackageId, objectId: jukeboxObjectId },
+        { title: title.trim(), blobRef: data.blob_ref, durationMs }
+      );
+
+      signAndExecute(
+        { transaction: tx },
+        {
+          onSuccess: async ({ digest }) => {
+            await suiClient.waitForTransaction({ digest });
+            await refetchCatalog();
+            setUiMsg(`"${title.trim()}" is now in the jukebox catalog.`);
+            setStep("done");
+          },
+          onError: (err) => {
+            setUiMsg(`Transaction failed: ${String((err as any)?.message || err)}`);
+            setStep("idle");
+          },
+        },
+      );
+    } catch (e: any) {
+      setUiMsg(`Upload failed: ${e?.message || String(e)}`);
+      setStep("idle");
+    }
+  };
+
+  const busy = step === "uploading" || step === "registering";
+
+  return (
+    <div className="bg-white text-black min-h-screen p-6 flex justify-center">
+      <Card className="w-full max-w-lg">
+        <CardHeader>
+          <CardTitle>Upload a track</CardTitle>
+          <CardDescription>
+            Your MP3 is stored as a blob and registered on chain with your address as the artist.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!currentAccount ? (
+            <ConnectButton />
+          ) : (
+            <>
+              <Input
+                type="file"
+                accept="audio/mpeg,.mp3"
+                disabled={busy}
+                onChange={(e) => void handleFile(e.target.files?.[0] ?? null)}
+              />
+
+              {file && (
+                <>
+                  <Input
+                    value={title}
+                    disabled={busy}
+                    onChange={(e) => setTitle(e.target.value)}
+                    placeholder="Track title"
+                  />
+                  <div className="text-sm text-slate-600">
+                    {tagArtist && <div>Artist tag: {tagArtist}</div>}
+                    <div>
+                      Duration:{" "}
+                      {durationMs === null ? "unknown" : `${Math.round(durationMs / 1000)} s`}
+                    </div>
+                  </div>
+                  <Button
+                    onClick={() => void handleUpload()}
+                    disabled={busy || !title.trim() || durationMs === null}
+                  >
+                    {step === "uploading" && "Uploading…"}
+                    {step === "registering" && "Waiting for wallet…"}
+                    {(step === "idle" || step === "done") && "Upload & register"}
+                  </Button>
+                </>
+              )}
+            </>
+          )}
+
+          {uiMsg && <div className="text-sm">{uiMsg}</div>}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -12,46 +12,388 @@ module jukebox::jukebox {
 	// --- TxContext ---
 	use sui::tx_context::{sender};
 
+	// --- Time ---
+	use sui::clock::Clock;
+
+	// --- Events ---
+	use sui::event;
+
 	// --- Coins ---
-	use sui::coin::{Coin, value, split};
+	use sui::coin::{Self, Coin, value, split};
+	use sui::balance::{Self, Balance};
 	use sui::sui::SUI;
 
 	// --- Data types ---
 	use std::string::String;
+	use sui::table::{Self, Table};
+
+	// --- Receipts: Sui Display for wallets ---
+	use sui::package;
+	use sui::display;
 
 	// --- Error codes ---
 	const E_INSUFFICIENT_PAYMENT: u64 = 1;
+	const E_UNKNOWN_TRACK: u64 = 2;
+	const E_WRONG_CAP: u64 = 3;
+	const E_INVALID_SPLIT: u64 = 4;
+	const E_PAUSED: u64 = 5;
+	const E_INVALID_NAME: u64 = 6;
+	const E_EMPTY_TIP: u64 = 7;
+	const E_NOTHING_PLAYING: u64 = 8;
+	const E_SKIP_DISABLED: u64 = 9;
+	const E_ALREADY_VOTED: u64 = 10;
+	const E_INVALID_REFUND: u64 = 11;
+	const E_INVALID_DISPLAY_NAME: u64 = 12;
+	const E_UNKNOWN_REQUEST: u64 = 13;
+	const E_NOT_REFUNDABLE: u64 = 14;
+	const E_NOT_REQUESTER: u64 = 15;
+	const E_WRONG_PASS: u64 = 16;
+	const E_NO_CREDITS: u64 = 17;
+	const E_PASS_EXPIRED: u64 = 18;
+	const E_PASS_RATE_LIMITED: u64 = 19;
+	const E_PASSES_NOT_SOLD: u64 = 20;
+	const E_INVALID_CREDITS: u64 = 21;
+	const E_INVALID_DURATION: u64 = 22;
+	const E_TRACK_REMOVED: u64 = 23;
+	const E_NO_PENDING_RECEIPTS: u64 = 24;
+	const E_INVALID_TIMEOUT: u64 = 25;
 
 	// --- Constants ---
 	const ONE_SUI: u64 = 1_000_000_000;
+	const BPS_DENOMINATOR: u64 = 10_000;
+	const DEFAULT_ARTIST_BPS: u64 = 7_000; // 70% of the fee goes to the artist
+	const MAX_NAME_LENGTH: u64 = 64; // bytes
+	const MAX_DISPLAY_NAME_LENGTH: u64 = 32; // bytes
+	const DEFAULT_SKIP_THRESHOLD: u64 = 3; // votes that end a play early
+	const DEFAULT_ESCROW_TIMEOUT_MS: u64 = 7_200_000; // a request that has not started after 2 hours is refundable
+	const MAX_PASS_CREDITS: u64 = 100;
+	const MAX_TRACK_DURATION_MS: u64 = 7_200_000; // 2 hours; longer plays would hold the room
+	const MAX_PENDING_RECEIPTS: u64 = 20; // unclaimed plays kept per holder; later plays get no receipt
+	const DEFAULT_PASS_DURATION_MS: u64 = 14_400_000; // a night out
+	const DEFAULT_PASS_MIN_INTERVAL_MS: u64 = 300_000; // one request every 5 minutes
+
+	// --- Why a request became refundable (RequestRefundable.reason) ---
+	const REASON_EXPIRED: u8 = 0;
+	const REASON_REJECTED: u8 = 1;
+
+	// --- One-time witness, claims the Publisher that creates the receipt Display ---
+	public struct JUKEBOX has drop {}
+
+	// --- Catalog entry; track_id is its index in Jukebox.tracks ---
+	public struct Track has store, copy, drop {
+		track_id: u64,
+		title: String,
+		artist: address,
+		blob_id: String,
+		duration_ms: u64,
+		tips: u64, // MIST tipped to the artist for this track, all time
+		removed: bool, // taken out by the owner; stays in the vector so track IDs do not move
+	}
+
+	// --- A paid request waiting in the queue; its payment is held in escrow until it starts ---
+	public struct Request has store, copy, drop {
+		id: u64,
+		requester: address,
+		track_id: u64,
+		paid: u64,
+		requested_at_ms: u64,
+	}
+
+	// --- Events (followed by the frontend instead of polling the object) ---
+	public struct JukeboxCreated has copy, drop {
+		jukebox_id: ID,
+		owner: address,
+		name: String,
+	}
+
+	public struct TrackRegistered has copy, drop {
+		jukebox_id: ID,
+		track_id: u64,
+		artist: address,
+	}
+
+	public struct TrackRequested has copy, drop {
+		jukebox_id: ID,
+		request_id: u64,
+		track_id: u64,
+		requester: address,
+		paid: u64, // MIST, the fee at request time
+		requested_at_ms: u64,
+		position: u64, // position in the queue, 0 when it started right away
+	}
+
+	public struct TrackChanged has copy, drop {
+		jukebox_id: ID,
+		request_id: u64,
+		track_id: u64,
+		requester: address,
+		started_at_ms: u64,
+	}
+
+	public struct RequestRefundable has copy, drop {
+		jukebox_id: ID,
+		request_id: u64,
+		track_id: u64,
+		requester: address,
+		amount: u64,
+		reason: u8, // REASON_EXPIRED or REASON_REJECTED
+	}
+
+	public struct RefundClaimed has copy, drop {
+		jukebox_id: ID,
+		request_id: u64,
+		requester: address,
+		amount: u64,
+	}
+
+	public struct Tipped has copy, drop {
+		jukebox_id: ID,
+		track_id: u64,
+		artist: address,
+		tipper: address,
+		amount: u64,
+	}
+
+	public struct SkipVoted has copy, drop {
+		jukebox_id: ID,
+		track_id: u64,
+		voter: address,
+		votes: u64,
+		threshold: u64,
+	}
+
+	public struct TrackSkipped has copy, drop {
+		jukebox_id: ID,
+		track_id: u64,
+		requester: address,
+		votes: u64,
+		refund: u64, // MIST sent back to the requester
+	}
+
+	// --- Not tied to a room: names follow the address everywhere ---
+	public struct DisplayNameSet has copy, drop {
+		owner: address,
+		name: String,
+	}
+
+	public struct PassBought has copy, drop {
+		jukebox_id: ID,
+		pass_id: ID,
+		buyer: address,
+		credits: u64,       // 0 for an unlimited pass
+		expires_at_ms: u64, // 0 for a credit pass
+		paid: u64,
+	}
+
+	public struct CreditsRefunded has copy, drop {
+		jukebox_id: ID,
+		pass_id: ID,
+		owner: address,
+		credits: u64,
+		amount: u64,
+	}
+
+	public struct FeeChanged has copy, drop {
+		jukebox_id: ID,
+		fee: u64,
+	}
+
+	public struct PausedChanged has copy, drop {
+		jukebox_id: ID,
+		paused: bool,
+	}
+
+	// --- Held by the jukebox owner; transferring it transfers ownership ---
+	public struct AdminCap has key, store {
+		id: UID,
+		jukebox_id: ID,
+	}
+
+	// --- Prepaid requests in one room: `credits` requests, or unlimited ones until expires_at_ms ---
+	public struct Pass has key, store {
+		id: UID,
+		jukebox_id: ID,
+		credits: u64,         // requests left on a credit pass
+		credit_value: u64,    // fee paid per credit, held in escrow until the request plays
+		expires_at_ms: u64,   // 0 for a credit pass
+		min_interval_ms: u64, // unlimited passes: time between two requests
+		last_used_ms: u64,
+	}
+
+	// --- A play of an opted-in requester, recorded by advance until they mint it with claim_receipts ---
+	public struct PendingReceipt has copy, drop, store {
+		request_id: u64,
+		track_id: u64,
+		paid: u64,
+		requested_at_ms: u64,
+		played_at_ms: u64,
+	}
+
+	// --- Collectible a requester who opted in (set_receipts) claims for each of their plays ---
+	public struct PlayReceipt has key, store {
+		id: UID,
+		jukebox_id: ID,
+		room: String,
+		request_id: u64,
+		track_id: u64,
+		title: String,
+		artist: address,
+		paid: u64,            // MIST; 0 for a request made with an unlimited pass
+		requested_at_ms: u64,
+		played_at_ms: u64,
+		image_url: String,    // artwork_base_url + blob_id, "" when the room has no artwork URL
+	}
 
 	public struct Jukebox has key {
 		id: UID,
-		owner: address,
+		name: String,            // shown in the room directory
+		payout_address: address, // receives the platform share
+		paused: bool,            // no new requests while paused
 		fee: u64,
 		last_buyer: address,
-		current_track: String,
+		current_track: Option<u64>,
+		current_started_at_ms: u64,
+		current_request: Option<Request>, // the paid request playing now
+		queue: vector<Request>,
+		tracks: vector<Track>,
+		// --- Revenue split in basis points; the payout address (platform) keeps the rest ---
+		artist_bps: u64,
+		curator_bps: u64,
+		curator: Option<address>,
+		// --- Vote-to-skip: votes on the current play, how many end it, what its requester gets back ---
+		skip_votes: vector<address>,
+		skip_threshold: u64,  // 0 turns skipping off
+		skip_refund_bps: u64, // of the fee paid, taken from refund_pool
+		refund_pool: Balance<SUI>,
+		// --- Escrow: payments of queued and refundable requests, and unspent pass credits ---
+		next_request_id: u64,
+		escrow: Balance<SUI>,
+		escrow_timeout_ms: u64,          // how long a request may wait before it no longer plays
+		refundable: vector<Request>,     // expired or rejected, waiting for claim_refund
+		// --- Unlimited passes; credit passes always cost the current fee per credit ---
+		pass_price: u64,           // 0 when unlimited passes are not sold
+		pass_duration_ms: u64,
+		pass_min_interval_ms: u64,
+		// --- Receipts: who wants one per play (with their unclaimed plays), and where the app serves track artwork ---
+		receipt_holders: Table<address, vector<PendingReceipt>>,
+		artwork_base_url: String,  // e.g. "https://<app>/api/tracks/artwork?network=<net>&room=<id>&ref="
+	}
+
+	fun init(otw: JUKEBOX, ctx: &mut TxContext) {
+		// --- How wallets and explorers render a PlayReceipt; the publisher can edit it later ---
+		let publisher = package::claim(otw, ctx);
+		let mut receipt_display = display::new_with_fields<PlayReceipt>(
+			&publisher,
+			vector[
+				b"name".to_string(),
+				b"description".to_string(),
+				b"image_url".to_string(),
+				b"creator".to_string(),
+			],
+			vector[
+				b"{title}".to_string(),
+				b"Played in {room}. Paid {paid} MIST.".to_string(),
+				b"{image_url}".to_string(),
+				b"{artist}".to_string(),
+			],
+			ctx,
+		);
+		receipt_display.update_version();
+		transfer::public_transfer(publisher, ctx.sender());
+		transfer::public_transfer(receipt_display, ctx.sender());
+
+		create_jukebox(b"Main room".to_string(), ONE_SUI, ctx);
+	}
+
+	// --- Opens a new room with its own fee, catalog and queue; the caller gets its AdminCap ---
+	public fun create_jukebox(name: String, fee: u64, ctx: &mut TxContext): ID {
+		assert!(!name.is_empty() && name.length() <= MAX_NAME_LENGTH, E_INVALID_NAME);
+
+		let jukebox = Jukebox {
+			id: object::new(ctx),
+			name,
+			payout_address: ctx.sender(),
+			paused: false,
+			fee,
+			last_buyer: ctx.sender(),
+			current_track: option::none(),
+			current_started_at_ms: 0,
+			current_request: option::none(),
+			queue: vector[],
+			tracks: vector[],
+			artist_bps: DEFAULT_ARTIST_BPS,
+			curator_bps: 0,
+			curator: option::none(),
+			skip_votes: vector[],
+			skip_threshold: DEFAULT_SKIP_THRESHOLD,
+			skip_refund_bps: 0,
+			refund_pool: balance::zero(),
+			next_request_id: 0,
+			escrow: balance::zero(),
+			escrow_timeout_ms: DEFAULT_ESCROW_TIMEOUT_MS,
+			refundable: vector[],
+			pass_price: 0,
+			pass_duration_ms: DEFAULT_PASS_DURATION_MS,
+			pass_min_interval_ms: DEFAULT_PASS_MIN_INTERVAL_MS,
+			receipt_holders: table::new(ctx),
+			artwork_base_url: b"".to_string(),
+		};
+		let jukebox_id = object::id(&jukebox);
+
+		event::emit(JukeboxCreated {
+			jukebox_id,
+			owner: ctx.sender(),
+			name: jukebox.name,
+		});
+		transfer::public_transfer(
+			AdminCap { id: object::new(ctx), jukebox_id },
+			ctx.sender()
+		);
+		transfer::share_object(jukebox);
+		jukebox_id
 	}
 
-	fun init(ctx: &mut TxContext) {
-		transfer::share_object(
-			Jukebox {
-				id: object::new(ctx),
-				owner: ctx.sender(),
-				fee: ONE_SUI,
-				last_buyer: ctx.sender(),
-				current_track: b"Silence".to_string(),
-			}	
-		)
+	// --- Adds a track to the catalog, the sender is recorded as its artist ---
+	public fun register_track(
+		jukebox: &mut Jukebox,
+		title: String,
+		blob_id: String,
+		duration_ms: u64,
+		ctx: &TxContext
+	): u64 {
+		assert!(duration_ms > 0 && duration_ms <= MAX_TRACK_DURATION_MS, E_INVALID_DURATION);
+
+		let track_id = jukebox.tracks.length();
+		jukebox.tracks.push_back(Track {
+			track_id,
+			title,
+			artist: sender(ctx),
+			blob_id,
+			duration_ms,
+			tips: 0,
+			removed: false,
+		});
+		event::emit(TrackRegistered {
+			jukebox_id: object::id(jukebox),
+			track_id,
+			artist: sender(ctx),
+		});
+		track_id
 	}
 
 	public fun change_track(
 		jukebox: &mut Jukebox,
 		mut payment: Coin<SUI>,
-		new_track: String,
+		track_id: u64,
+		clock: &Clock,
 		ctx: &mut TxContext
 	) {
 
+		// --- Only registered tracks can be bought, and only while requests are open ---
+		assert!(!jukebox.paused, E_PAUSED);
+		assert!(track_id < jukebox.tracks.length(), E_UNKNOWN_TRACK);
+		assert!(!jukebox.tracks[track_id].removed, E_TRACK_REMOVED);
+
 		let paid = value(&payment);
 
 		// --- Check if payment is insufficient ---
@@ -63,12 +405,663 @@ module jukebox::jukebox {
 			transfer::public_transfer(change, sender(ctx));
 		};
 
-		// --- Send payment to jukebox owner ---
-		transfer::public_transfer(payment, jukebox.owner);
+		// --- Hold the fee until the track starts (see settle) ---
+		let fee = jukebox.fee;
+		jukebox.escrow.join(payment.into_balance());
+
+		enqueue(jukebox, track_id, fee, clock, ctx);
+	}
 
-		// --- To implement : send payment to artist ---
+	// --- Same as change_track, paid with a pass of this room instead of a coin ---
+	// A credit pass spends one credit (already in escrow); an unlimited pass is rate limited and pays nothing more.
+	public fun change_track_with_pass(
+		jukebox: &mut Jukebox,
+		pass: &mut Pass,
+		track_id: u64,
+		clock: &Clock,
+		ctx: &mut TxContext
+	) {
+		assert!(!jukebox.paused, E_PAUSED);
+		assert!(track_id < jukebox.tracks.length(), E_UNKNOWN_TRACK);
+		assert!(!jukebox.tracks[track_id].removed, E_TRACK_REMOVED);
+		assert!(pass.jukebox_id == object::id(jukebox), E_WRONG_PASS);
+
+		let now = clock.timestamp_ms();
+		let paid = if (pass.expires_at_ms == 0) {
+			assert!(pass.credits > 0, E_NO_CREDITS);
+			pass.credits = pass.credits - 1;
+			pass.credit_value
+		} else {
+			assert!(now < pass.expires_at_ms, E_PASS_EXPIRED);
+			assert!(pass.last_used_ms == 0 || now >= pass.last_used_ms + pass.min_interval_ms, E_PASS_RATE_LIMITED);
+			0
+		};
+		pass.last_used_ms = now;
+
+		enqueue(jukebox, track_id, paid, clock, ctx);
+	}
+
+	// --- Queues a request whose fee is already in escrow; it starts right away if nothing is playing ---
+	fun enqueue(jukebox: &mut Jukebox, track_id: u64, paid: u64, clock: &Clock, ctx: &mut TxContext) {
 		jukebox.last_buyer = sender(ctx);
-		jukebox.current_track = new_track;
+
+		let request_id = jukebox.next_request_id;
+		jukebox.next_request_id = request_id + 1;
+		jukebox.queue.push_back(Request {
+			id: request_id,
+			requester: sender(ctx),
+			track_id,
+			paid,
+			requested_at_ms: clock.timestamp_ms(),
+		});
+		advance(jukebox, clock, ctx);
+
+		// --- Requests are appended, so if the queue is not empty ours is last ---
+		event::emit(TrackRequested {
+			jukebox_id: object::id(jukebox),
+			request_id,
+			track_id,
+			requester: sender(ctx),
+			paid,
+			requested_at_ms: clock.timestamp_ms(),
+			position: jukebox.queue.length(),
+		});
+	}
+
+	// --- `credits` requests at the current fee each; the payment waits in escrow until they play ---
+	public fun buy_credits(jukebox: &mut Jukebox, mut payment: Coin<SUI>, credits: u64, ctx: &mut TxContext) {
+		assert!(!jukebox.paused, E_PAUSED);
+		assert!(credits > 0 && credits <= MAX_PASS_CREDITS, E_INVALID_CREDITS);
+
+		let price = jukebox.fee * credits;
+		let paid = value(&payment);
+		assert!(paid >= price, E_INSUFFICIENT_PAYMENT);
+		if (paid > price) {
+			let change = split(&mut payment, paid - price, ctx);
+			transfer::public_transfer(change, sender(ctx));
+		};
+		jukebox.escrow.join(payment.into_balance());
+
+		let fee = jukebox.fee;
+		mint_pass(jukebox, credits, fee, 0, price, ctx);
+	}
+
+	// --- Gives back the escrowed value of a credit pass's unused credits and burns the pass ---
+	// Open even while requests are paused. A used-up pass is burned with nothing to send back.
+	// Unlimited passes have no credits and cannot be refunded.
+	public fun refund_credits(jukebox: &mut Jukebox, pass: Pass, ctx: &mut TxContext) {
+		assert!(pass.jukebox_id == object::id(jukebox), E_WRONG_PASS);
+		assert!(pass.expires_at_ms == 0, E_NO_CREDITS);
+
+		let Pass { id, jukebox_id: _, credits, credit_value, expires_at_ms: _, min_interval_ms: _, last_used_ms: _ } = pass;
+		let amount = credits * credit_value;
+		let owner = sender(ctx);
+		if (amount > 0) {
+			transfer::public_transfer(coin::take(&mut jukebox.escrow, amount, ctx), owner);
+		};
+
+		event::emit(CreditsRefunded {
+			jukebox_id: object::id(jukebox),
+			pass_id: object::uid_to_inner(&id),
+			owner,
+			credits,
+			amount,
+		});
+		object::delete(id);
+	}
+
+	// --- Unlimited requests for pass_duration_ms, one every pass_min_interval_ms; the price goes to the payout address ---
+	public fun buy_pass(jukebox: &mut Jukebox, mut payment: Coin<SUI>, clock: &Clock, ctx: &mut TxContext) {
+		assert!(!jukebox.paused, E_PAUSED);
+		assert!(jukebox.pass_price > 0, E_PASSES_NOT_SOLD);
+
+		let price = jukebox.pass_price;
+		let paid = value(&payment);
+		assert!(paid >= price, E_INSUFFICIENT_PAYMENT);
+		if (paid > price) {
+			let change = split(&mut payment, paid - price, ctx);
+			transfer::public_transfer(change, sender(ctx));
+		};
+		transfer::public_transfer(payment, jukebox.payout_address);
+
+		let expires_at_ms = clock.timestamp_ms() + jukebox.pass_duration_ms;
+		mint_pass(jukebox, 0, 0, expires_at_ms, price, ctx);
+	}
+
+	fun mint_pass(
+		jukebox: &Jukebox,
+		credits: u64,
+		credit_value: u64,
+		expires_at_ms: u64,
+		paid: u64,
+		ctx: &mut TxContext
+	) {
+		let pass = Pass {
+			id: object::new(ctx),
+			jukebox_id: object::id(jukebox),
+			credits,
+			credit_value,
+			expires_at_ms,
+			min_interval_ms: jukebox.pass_min_interval_ms,
+			last_used_ms: 0,
+		};
+		event::emit(PassBought {
+			jukebox_id: object::id(jukebox),
+			pass_id: object::id(&pass),
+			buyer: sender(ctx),
+			credits,
+			expires_at_ms,
+			paid,
+		});
+		transfer::public_transfer(pass, sender(ctx));
+	}
+
+	// --- Pays out a request's escrowed fee once it starts, split between artist, curator and payout address ---
+	fun settle(jukebox: &mut Jukebox, request: &Request, ctx: &mut TxContext) {
+		let fee = request.paid;
+		// --- Unlimited passes were paid for up front ---
+		if (fee == 0) return;
+		let mut payment = coin::take(&mut jukebox.escrow, fee, ctx);
+
+		// --- Send the artist's share to the track's registered artist ---
+		let artist_amount = share_of(fee, jukebox.artist_bps);
+		if (artist_amount > 0) {
+			let artist_cut = split(&mut payment, artist_amount, ctx);
+			transfer::public_transfer(artist_cut, jukebox.tracks[request.track_id].artist);
+		};
+
+		// --- Send the curator's share, if a curator is set ---
+		if (jukebox.curator.is_some()) {
+			let curator_amount = share_of(fee, jukebox.curator_bps);
+			if (curator_amount > 0) {
+				let curator_cut = split(&mut payment, curator_amount, ctx);
+				transfer::public_transfer(curator_cut, *jukebox.curator.borrow());
+			};
+		};
+
+		// --- Send the rest to the jukebox payout address ---
+		transfer::public_transfer(payment, jukebox.payout_address);
+	}
+
+	// --- Whoever calls advance only pays for this small record; the holder pays for the receipt when claiming ---
+	fun record_receipt(jukebox: &mut Jukebox, request: &Request, played_at_ms: u64) {
+		if (!jukebox.receipt_holders.contains(request.requester)) return;
+
+		let pending = jukebox.receipt_holders.borrow_mut(request.requester);
+		if (pending.length() >= MAX_PENDING_RECEIPTS) return;
+		pending.push_back(PendingReceipt {
+			request_id: request.id,
+			track_id: request.track_id,
+			paid: request.paid,
+			requested_at_ms: request.requested_at_ms,
+			played_at_ms,
+		});
+	}
+
+	fun mint_receipt(jukebox: &Jukebox, holder: address, play: &PendingReceipt, ctx: &mut TxContext) {
+		let track = &jukebox.tracks[play.track_id];
+		let mut image_url = jukebox.artwork_base_url;
+		if (!image_url.is_empty()) image_url.append(track.blob_id);
+
+		transfer::public_transfer(PlayReceipt {
+			id: object::new(ctx),
+			jukebox_id: object::id(jukebox),
+			room: jukebox.name,
+			request_id: play.request_id,
+			track_id: play.track_id,
+			title: track.title,
+			artist: track.artist,
+			paid: play.paid,
+			requested_at_ms: play.requested_at_ms,
+			played_at_ms: play.played_at_ms,
+			image_url,
+		}, holder);
+	}
+
+	// --- The request will not play; its requester can take the fee back with claim_refund ---
+	fun make_refundable(jukebox: &mut Jukebox, request: Request, reason: u8) {
+		event::emit(RequestRefundable {
+			jukebox_id: object::id(jukebox),
+			request_id: request.id,
+			track_id: request.track_id,
+			requester: request.requester,
+			amount: request.paid,
+			reason,
+		});
+		// --- Requests made with an unlimited pass have nothing to give back ---
+		if (request.paid > 0) jukebox.refundable.push_back(request);
+	}
+
+	fun find_request(requests: &vector<Request>, request_id: u64): Option<u64> {
+		let mut i = 0;
+		while (i < requests.length()) {
+			if (requests[i].id == request_id) return option::some(i);
+			i = i + 1;
+		};
+		option::none()
+	}
+
+	// --- Returns the escrowed fee of a request that expired or was rejected ---
+	// A queued request past its deadline can be claimed right away: it can no longer start in time.
+	public fun claim_refund(jukebox: &mut Jukebox, request_id: u64, clock: &Clock, ctx: &mut TxContext) {
+		advance(jukebox, clock, ctx);
+
+		let queued = find_request(&jukebox.queue, request_id);
+		if (queued.is_some()) {
+			let request = jukebox.queue[*queued.borrow()];
+			assert!(clock.timestamp_ms() > request.requested_at_ms + jukebox.escrow_timeout_ms, E_NOT_REFUNDABLE);
+			jukebox.queue.remove(*queued.borrow());
+			make_refundable(jukebox, request, REASON_EXPIRED);
+		};
+
+		let index = find_request(&jukebox.refundable, request_id);
+		assert!(index.is_some(), E_NOT_REFUNDABLE);
+		let request = jukebox.refundable.remove(*index.borrow());
+		assert!(request.requester == sender(ctx), E_NOT_REQUESTER);
+
+		transfer::public_transfer(coin::take(&mut jukebox.escrow, request.paid, ctx), request.requester);
+		event::emit(RefundClaimed {
+			jukebox_id: object::id(jukebox),
+			request_id,
+			requester: request.requester,
+			amount: request.paid,
+		});
+	}
+
+	// --- Sends the whole coin to the track's artist; open even while requests are paused ---
+	public fun tip(
+		jukebox: &mut Jukebox,
+		payment: Coin<SUI>,
+		track_id: u64,
+		ctx: &TxContext
+	) {
+		assert!(track_id < jukebox.tracks.length(), E_UNKNOWN_TRACK);
+		assert!(!jukebox.tracks[track_id].removed, E_TRACK_REMOVED);
+		let amount = value(&payment);
+		assert!(amount > 0, E_EMPTY_TIP);
+
+		let track = &mut jukebox.tracks[track_id];
+		track.tips = track.tips + amount;
+		let artist = track.artist;
+		transfer::public_transfer(payment, artist);
+
+		event::emit(Tipped {
+			jukebox_id: object::id(jukebox),
+			track_id,
+			artist,
+			tipper: sender(ctx),
+			amount,
+		});
+	}
+
+	// --- One vote per address and play; reaching the owner's threshold ends the play early ---
+	public fun vote_skip(jukebox: &mut Jukebox, clock: &Clock, ctx: &mut TxContext) {
+		// --- Votes count for what plays now, not for a track that already ended ---
+		advance(jukebox, clock, ctx);
+		assert!(jukebox.skip_threshold > 0, E_SKIP_DISABLED);
+		assert!(jukebox.current_request.is_some(), E_NOTHING_PLAYING);
+
+		let voter = sender(ctx);
+		assert!(!jukebox.skip_votes.contains(&voter), E_ALREADY_VOTED);
+		jukebox.skip_votes.push_back(voter);
+
+		let request = *jukebox.current_request.borrow();
+		let votes = jukebox.skip_votes.length();
+		event::emit(SkipVoted {
+			jukebox_id: object::id(jukebox),
+			track_id: request.track_id,
+			voter,
+			votes,
+			threshold: jukebox.skip_threshold,
+		});
+		if (votes < jukebox.skip_threshold) return;
+
+		// --- Partial refund from the pool the owner funds, or what is left of it ---
+		let mut refund = share_of(request.paid, jukebox.skip_refund_bps);
+		if (refund > jukebox.refund_pool.value()) {
+			refund = jukebox.refund_pool.value();
+		};
+		if (refund > 0) {
+			transfer::public_transfer(coin::take(&mut jukebox.refund_pool, refund, ctx), request.requester);
+		};
+		event::emit(TrackSkipped {
+			jukebox_id: object::id(jukebox),
+			track_id: request.track_id,
+			requester: request.requester,
+			votes,
+			refund,
+		});
+
+		// --- The next request (if any) starts now ---
+		end_current(jukebox);
+		advance(jukebox, clock, ctx);
+	}
+
+	// --- Opts the sender in or out of a PlayReceipt for each of their plays in this room ---
+	// Opting out drops the plays not claimed yet.
+	public fun set_receipts(jukebox: &mut Jukebox, enabled: bool, ctx: &TxContext) {
+		let holder = sender(ctx);
+		if (enabled && !jukebox.receipt_holders.contains(holder)) {
+			jukebox.receipt_holders.add(holder, vector[]);
+		} else if (!enabled && jukebox.receipt_holders.contains(holder)) {
+			jukebox.receipt_holders.remove(holder);
+		};
+	}
+
+	// --- Mints a PlayReceipt to the sender for each of their recorded plays in this room ---
+	public fun claim_receipts(jukebox: &mut Jukebox, ctx: &mut TxContext) {
+		let holder = sender(ctx);
+		assert!(jukebox.receipt_holders.contains(holder), E_NO_PENDING_RECEIPTS);
+		let pending = jukebox.receipt_holders.borrow_mut(holder);
+		let plays = *pending;
+		*pending = vector[];
+		assert!(!plays.is_empty(), E_NO_PENDING_RECEIPTS);
+
+		let mut i = 0;
+		while (i < plays.length()) {
+			mint_receipt(jukebox, holder, &plays[i], ctx);
+			i = i + 1;
+		};
+	}
+
+	// --- Listeners name themselves on leaderboards; the newest event per address wins, "" clears it ---
+	public fun set_display_name(name: String, ctx: &TxContext) {
+		assert!(name.length() <= MAX_DISPLAY_NAME_LENGTH, E_INVALID_DISPLAY_NAME);
+		event::emit(DisplayNameSet {
+			owner: sender(ctx),
+			name,
+		});
+	}
+
+	// --- Admin: every call needs the AdminCap of this jukebox ---
+	fun assert_admin(cap: &AdminCap, jukebox: &Jukebox) {
+		assert!(cap.jukebox_id == object::id(jukebox), E_WRONG_CAP);
+	}
+
+	// --- Owner updates the price of a request ---
+	public fun set_fee(cap: &AdminCap, jukebox: &mut Jukebox, fee: u64) {
+		assert_admin(cap, jukebox);
+		jukebox.fee = fee;
+		event::emit(FeeChanged {
+			jukebox_id: object::id(jukebox),
+			fee,
+		});
+	}
+
+	// --- Owner sets how the fee is shared; the curator share is ignored without a curator ---
+	public fun set_split(
+		cap: &AdminCap,
+		jukebox: &mut Jukebox,
+		artist_bps: u64,
+		curator_bps: u64,
+		curator: Option<address>
+	) {
+		assert_admin(cap, jukebox);
+		assert!(artist_bps + curator_bps <= BPS_DENOMINATOR, E_INVALID_SPLIT);
+		jukebox.artist_bps = artist_bps;
+		jukebox.curator_bps = curator_bps;
+		jukebox.curator = curator;
+	}
+
+	// --- Owner stops (or reopens) paid requests; what is queued still plays ---
+	public fun set_paused(cap: &AdminCap, jukebox: &mut Jukebox, paused: bool) {
+		assert_admin(cap, jukebox);
+		jukebox.paused = paused;
+		event::emit(PausedChanged {
+			jukebox_id: object::id(jukebox),
+			paused,
+		});
+	}
+
+	// --- Owner changes where the platform share is sent ---
+	public fun set_payout_address(cap: &AdminCap, jukebox: &mut Jukebox, payout_address: address) {
+		assert_admin(cap, jukebox);
+		jukebox.payout_address = payout_address;
+	}
+
+	// --- Owner sets how many votes skip a play (0 turns skipping off) and the refund share ---
+	public fun set_skip_policy(cap: &AdminCap, jukebox: &mut Jukebox, threshold: u64, refund_bps: u64) {
+		assert_admin(cap, jukebox);
+		assert!(refund_bps <= BPS_DENOMINATOR, E_INVALID_REFUND);
+		jukebox.skip_threshold = threshold;
+		jukebox.skip_refund_bps = refund_bps;
+	}
+
+	// --- Owner tops up the pool skip refunds are paid from ---
+	public fun fund_refunds(cap: &AdminCap, jukebox: &mut Jukebox, payment: Coin<SUI>) {
+		assert_admin(cap, jukebox);
+		jukebox.refund_pool.join(payment.into_balance());
+	}
+
+	// --- Owner takes the whole refund pool back ---
+	public fun withdraw_refunds(cap: &AdminCap, jukebox: &mut Jukebox, ctx: &mut TxContext) {
+		assert_admin(cap, jukebox);
+		let amount = jukebox.refund_pool.value();
+		transfer::public_transfer(coin::take(&mut jukebox.refund_pool, amount, ctx), sender(ctx));
+	}
+
+	// --- Owner turns a queued request down; its fee stays in escrow for the requester to claim ---
+	public fun reject_request(cap: &AdminCap, jukebox: &mut Jukebox, request_id: u64) {
+		assert_admin(cap, jukebox);
+		let index = find_request(&jukebox.queue, request_id);
+		assert!(index.is_some(), E_UNKNOWN_REQUEST);
+		let request = jukebox.queue.remove(*index.borrow());
+		make_refundable(jukebox, request, REASON_REJECTED);
+	}
+
+	// --- Owner ends the current play right away; the next request (if any) starts now ---
+	public fun skip_current(cap: &AdminCap, jukebox: &mut Jukebox, clock: &Clock, ctx: &mut TxContext) {
+		assert_admin(cap, jukebox);
+		advance(jukebox, clock, ctx);
+		assert!(jukebox.current_request.is_some(), E_NOTHING_PLAYING);
+
+		let request = *jukebox.current_request.borrow();
+		event::emit(TrackSkipped {
+			jukebox_id: object::id(jukebox),
+			track_id: request.track_id,
+			requester: request.requester,
+			votes: jukebox.skip_votes.length(),
+			refund: 0,
+		});
+		end_current(jukebox);
+		advance(jukebox, clock, ctx);
+	}
+
+	// --- Owner takes a track out of the catalog; its queued requests become refundable ---
+	// The track keeps its slot so later track IDs do not move. If it is playing, the play ends now.
+	public fun remove_track(
+		cap: &AdminCap,
+		jukebox: &mut Jukebox,
+		track_id: u64,
+		clock: &Clock,
+		ctx: &mut TxContext
+	) {
+		assert_admin(cap, jukebox);
+		assert!(track_id < jukebox.tracks.length(), E_UNKNOWN_TRACK);
+		assert!(!jukebox.tracks[track_id].removed, E_TRACK_REMOVED);
+		// --- Catch up first, so plays that already ended keep their times and only the one on now is cut ---
+		advance(jukebox, clock, ctx);
+		jukebox.tracks[track_id].removed = true;
+
+		let mut i = 0;
+		while (i < jukebox.queue.length()) {
+			if (jukebox.queue[i].track_id == track_id) {
+				let request = jukebox.queue.remove(i);
+				make_refundable(jukebox, request, REASON_REJECTED);
+			} else {
+				i = i + 1;
+			};
+		};
+
+		if (jukebox.current_track == option::some(track_id)) {
+			end_current(jukebox);
+			advance(jukebox, clock, ctx);
+		};
+	}
+
+	// --- Owner prices unlimited passes (0 stops selling them); passes already sold keep their terms ---
+	public fun set_pass_policy(
+		cap: &AdminCap,
+		jukebox: &mut Jukebox,
+		price: u64,
+		duration_ms: u64,
+		min_interval_ms: u64
+	) {
+		assert_admin(cap, jukebox);
+		jukebox.pass_price = price;
+		jukebox.pass_duration_ms = duration_ms;
+		jukebox.pass_min_interval_ms = min_interval_ms;
+	}
+
+	// --- Owner points receipts at the app's artwork route; receipts already minted keep their URL ---
+	public fun set_artwork_base_url(cap: &AdminCap, jukebox: &mut Jukebox, url: String) {
+		assert_admin(cap, jukebox);
+		jukebox.artwork_base_url = url;
+	}
+
+	// --- Owner sets how long a request may wait in the queue before it becomes refundable ---
+	// At least the longest track, so a request queued behind one full play does not expire.
+	public fun set_escrow_timeout(cap: &AdminCap, jukebox: &mut Jukebox, timeout_ms: u64) {
+		assert_admin(cap, jukebox);
+		assert!(timeout_ms >= MAX_TRACK_DURATION_MS, E_INVALID_TIMEOUT);
+		jukebox.escrow_timeout_ms = timeout_ms;
+	}
+
+	// --- Hands the jukebox over, platform share included: payouts go to `new_payout` from now on ---
+	public fun transfer_ownership(cap: AdminCap, jukebox: &mut Jukebox, new_owner: address, new_payout: address) {
+		assert_admin(&cap, jukebox);
+		jukebox.payout_address = new_payout;
+		transfer::public_transfer(cap, new_owner);
+	}
+
+	fun share_of(amount: u64, bps: u64): u64 {
+		(((amount as u128) * (bps as u128) / (BPS_DENOMINATOR as u128)) as u64)
+	}
+
+	// --- Starts queued requests back to back once the current track has run its duration ---
+	// Anyone can call it; change_track calls it too. Starting a request releases its escrowed fee,
+	// and a request that would start after its deadline becomes refundable instead.
+	public fun advance(jukebox: &mut Jukebox, clock: &Clock, ctx: &mut TxContext) {
+		let now = clock.timestamp_ms();
+		loop {
+			let free_at = if (jukebox.current_track.is_some()) {
+				current_ends_at_ms(jukebox)
+			} else {
+				now
+			};
+
+			// --- Current track still playing ---
+			if (jukebox.current_track.is_some() && free_at > now) break;
+
+			if (jukebox.queue.is_empty()) {
+				end_current(jukebox);
+				break
+			};
+
+			let next = jukebox.queue.remove(0);
+			let starts_at_ms = if (free_at > next.requested_at_ms) {
+				free_at
+			} else {
+				next.requested_at_ms
+			};
+			if (starts_at_ms > next.requested_at_ms + jukebox.escrow_timeout_ms) {
+				// --- Waited past its deadline; the following request gets the slot ---
+				make_refundable(jukebox, next, REASON_EXPIRED);
+				continue
+			};
+
+			settle(jukebox, &next, ctx);
+			record_receipt(jukebox, &next, starts_at_ms);
+			jukebox.current_track = option::some(next.track_id);
+			jukebox.current_request = option::some(next);
+			jukebox.skip_votes = vector[];
+			jukebox.current_started_at_ms = starts_at_ms;
+
+			event::emit(TrackChanged {
+				jukebox_id: object::id(jukebox),
+				request_id: next.id,
+				track_id: next.track_id,
+				requester: next.requester,
+				started_at_ms: jukebox.current_started_at_ms,
+			});
+		}
+	}
+
+	// --- Nothing playing; skip votes belong to a play, so they go too ---
+	fun end_current(jukebox: &mut Jukebox) {
+		jukebox.current_track = option::none();
+		jukebox.current_request = option::none();
+		jukebox.skip_votes = vector[];
+	}
+
+	fun current_ends_at_ms(jukebox: &Jukebox): u64 {
+		let track = &jukebox.tracks[*jukebox.current_track.borrow()];
+		jukebox.current_started_at_ms + track.duration_ms
+	}
+
+	// --- Read-only accessors ---
+	public fun name(jukebox: &Jukebox): String {
+		jukebox.name
+	}
+
+	public fun fee(jukebox: &Jukebox): u64 {
+		jukebox.fee
+	}
+
+	public fun is_paused(jukebox: &Jukebox): bool {
+		jukebox.paused
+	}
+
+	public fun current_track(jukebox: &Jukebox): Option<u64> {
+		jukebox.current_track
+	}
+
+	// --- Clock time (ms) at which the current track started, listeners seek to now - this ---
+	public fun current_started_at_ms(jukebox: &Jukebox): u64 {
+		jukebox.current_started_at_ms
+	}
+
+	public fun skip_votes(jukebox: &Jukebox): u64 {
+		jukebox.skip_votes.length()
+	}
+
+	public fun skip_threshold(jukebox: &Jukebox): u64 {
+		jukebox.skip_threshold
+	}
+
+	public fun wants_receipts(jukebox: &Jukebox, holder: address): bool {
+		jukebox.receipt_holders.contains(holder)
+	}
+
+	public fun pending_receipts(jukebox: &Jukebox, holder: address): u64 {
+		if (!jukebox.receipt_holders.contains(holder)) return 0;
+		jukebox.receipt_holders.borrow(holder).length()
+	}
+
+	public fun pass_credits(pass: &Pass): u64 {
+		pass.credits
+	}
+
+	public fun pass_expires_at_ms(pass: &Pass): u64 {
+		pass.expires_at_ms
+	}
+
+	// --- MIST held for queued and refundable requests, and unspent pass credits ---
+	public fun escrowed(jukebox: &Jukebox): u64 {
+		jukebox.escrow.value()
+	}
+
+	public fun queue_length(jukebox: &Jukebox): u64 {
+		jukebox.queue.length()
+	}
+
+	public fun track_count(jukebox: &Jukebox): u64 {
+		jukebox.tracks.length()
+	}
+
+	public fun track(jukebox: &Jukebox, track_id: u64): &Track {
+		assert!(track_id < jukebox.tracks.length(), E_UNKNOWN_TRACK);
+		&jukebox.tracks[track_id]
 	}
 
-}
\ No newline at end of file
+}
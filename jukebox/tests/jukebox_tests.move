@@ -1,18 +1,385 @@
-/*
 #[test_only]
-module jukebox::jukebox_tests;
-// uncomment this line to import the module
-// use jukebox::jukebox;
+module jukebox::jukebox_tests {
 
-const ENotImplemented: u64 = 0;
+	use sui::clock::{Self, Clock};
+	use sui::coin::{Self, Coin};
+	use sui::sui::SUI;
+	use sui::test_scenario::{Self as ts, Scenario};
 
-#[test]
-fun test_jukebox() {
-    // pass
-}
+	use jukebox::jukebox::{Self, AdminCap, Jukebox, Pass};
+
+	const OWNER: address = @0xA;
+	const ARTIST: address = @0xB;
+	const CURATOR: address = @0xC;
+	const LISTENER: address = @0xD;
+	const OTHER_LISTENER: address = @0xE;
+
+	const FEE: u64 = 1_000;
+	const TRACK_MS: u64 = 60_000;
+	const LONG_TRACK_MS: u64 = 7_200_000; // MAX_TRACK_DURATION_MS
+	const ESCROW_TIMEOUT_MS: u64 = 7_200_000; // DEFAULT_ESCROW_TIMEOUT_MS
+
+	// --- Track IDs registered by setup ---
+	const SHORT: u64 = 0;
+	const OTHER: u64 = 1;
+	const LONG: u64 = 2;
+
+	// --- A room owned by OWNER with three tracks by ARTIST, and a clock at 0 ---
+	fun setup(): (Scenario, Clock) {
+		let mut scenario = ts::begin(OWNER);
+		jukebox::create_jukebox(b"Test room".to_string(), FEE, scenario.ctx());
+
+		scenario.next_tx(ARTIST);
+		{
+			let mut jukebox = scenario.take_shared<Jukebox>();
+			jukebox.register_track(b"Short".to_string(), b"local:short".to_string(), TRACK_MS, scenario.ctx());
+			jukebox.register_track(b"Other".to_string(), b"local:other".to_string(), TRACK_MS, scenario.ctx());
+			jukebox.register_track(b"Long".to_string(), b"local:long".to_string(), LONG_TRACK_MS, scenario.ctx());
+			ts::return_shared(jukebox);
+		};
+
+		let clock = clock::create_for_testing(scenario.ctx());
+		(scenario, clock)
+	}
+
+	// --- Pays the exact fee, so the requester gets no change back ---
+	fun request(scenario: &mut Scenario, clock: &Clock, requester: address, track_id: u64) {
+		scenario.next_tx(requester);
+		let mut jukebox = scenario.take_shared<Jukebox>();
+		let payment = coin::mint_for_testing<SUI>(jukebox.fee(), scenario.ctx());
+		jukebox.change_track(payment, track_id, clock, scenario.ctx());
+		ts::return_shared(jukebox);
+	}
+
+	fun remove(scenario: &mut Scenario, clock: &Clock, track_id: u64) {
+		scenario.next_tx(OWNER);
+		let mut jukebox = scenario.take_shared<Jukebox>();
+		let cap = scenario.take_from_sender<AdminCap>();
+		jukebox::remove_track(&cap, &mut jukebox, track_id, clock, scenario.ctx());
+		scenario.return_to_sender(cap);
+		ts::return_shared(jukebox);
+	}
+
+	fun claim(scenario: &mut Scenario, clock: &Clock, requester: address, request_id: u64) {
+		scenario.next_tx(requester);
+		let mut jukebox = scenario.take_shared<Jukebox>();
+		jukebox.claim_refund(request_id, clock, scenario.ctx());
+		ts::return_shared(jukebox);
+	}
+
+	// --- Value of the last coin sent to `owner` in an earlier transaction; burns it ---
+	fun take_coin(scenario: &Scenario, owner: address): u64 {
+		coin::burn_for_testing(scenario.take_from_address<Coin<SUI>>(owner))
+	}
+
+	// --- Advance ---
+
+	#[test]
+	fun advance_catches_up_over_finished_plays() {
+		let (mut scenario, mut clock) = setup();
+		clock.set_for_testing(1_000);
+		request(&mut scenario, &clock, LISTENER, SHORT);
+		request(&mut scenario, &clock, LISTENER, SHORT);
+		request(&mut scenario, &clock, OTHER_LISTENER, OTHER);
+
+		scenario.next_tx(LISTENER);
+		{
+			let jukebox = scenario.take_shared<Jukebox>();
+			assert!(jukebox.queue_length() == 2, 0);
+			assert!(jukebox.escrowed() == 2 * FEE, 1);
+			ts::return_shared(jukebox);
+		};
+
+		// --- Nobody called advance for two plays; the third is half way through ---
+		clock.set_for_testing(1_000 + 2 * TRACK_MS + TRACK_MS / 2);
+		scenario.next_tx(LISTENER);
+		{
+			let mut jukebox = scenario.take_shared<Jukebox>();
+			jukebox.advance(&clock, scenario.ctx());
+			assert!(jukebox.current_track() == option::some(OTHER), 2);
+			// --- Each play starts when the one before it ended, not when advance ran ---
+			assert!(jukebox.current_started_at_ms() == 1_000 + 2 * TRACK_MS, 3);
+			assert!(jukebox.queue_length() == 0, 4);
+			assert!(jukebox.escrowed() == 0, 5);
+			ts::return_shared(jukebox);
+		};
+
+		clock.set_for_testing(1_000 + 3 * TRACK_MS);
+		scenario.next_tx(LISTENER);
+		{
+			let mut jukebox = scenario.take_shared<Jukebox>();
+			jukebox.advance(&clock, scenario.ctx());
+			assert!(jukebox.current_track().is_none(), 6);
+			ts::return_shared(jukebox);
+		};
+
+		clock.destroy_for_testing();
+		scenario.end();
+	}
+
+	// --- Refunds ---
+
+	#[test]
+	fun request_past_its_deadline_is_refunded() {
+		let (mut scenario, mut clock) = setup();
+		clock.set_for_testing(1_000);
+		request(&mut scenario, &clock, LISTENER, LONG); // request 0, plays until 7_201_000
+		clock.set_for_testing(2_000);
+		request(&mut scenario, &clock, LISTENER, LONG); // request 1, starts at 7_201_000, in time
+		request(&mut scenario, &clock, OTHER_LISTENER, SHORT); // request 2, cannot start before 14_401_000
+
+		// --- Still queued, but it can no longer start before 2_000 + the timeout ---
+		clock.set_for_testing(2_000 + ESCROW_TIMEOUT_MS + 1);
+		claim(&mut scenario, &clock, OTHER_LISTENER, 2);
+
+		scenario.next_tx(OTHER_LISTENER);
+		assert!(take_coin(&scenario, OTHER_LISTENER) == FEE, 0);
+		{
+			let jukebox = scenario.take_shared<Jukebox>();
+			assert!(jukebox.current_track() == option::some(LONG), 1);
+			assert!(jukebox.current_started_at_ms() == 1_000 + LONG_TRACK_MS, 2);
+			assert!(jukebox.queue_length() == 0, 3);
+			// --- Both long plays were paid out, the refund took the rest ---
+			assert!(jukebox.escrowed() == 0, 4);
+			ts::return_shared(jukebox);
+		};
+
+		clock.destroy_for_testing();
+		scenario.end();
+	}
+
+	#[test, expected_failure(abort_code = jukebox::E_NOT_REFUNDABLE)]
+	fun request_is_not_refunded_before_its_deadline() {
+		let (mut scenario, mut clock) = setup();
+		clock.set_for_testing(1_000);
+		request(&mut scenario, &clock, LISTENER, LONG);
+		request(&mut scenario, &clock, OTHER_LISTENER, SHORT); // request 1, plays at 7_201_000
+
+		clock.set_for_testing(2_000);
+		claim(&mut scenario, &clock, OTHER_LISTENER, 1);
+
+		clock.destroy_for_testing();
+		scenario.end();
+	}
+
+	#[test, expected_failure(abort_code = jukebox::E_NOT_REQUESTER)]
+	fun refund_goes_only_to_the_requester() {
+		let (mut scenario, mut clock) = setup();
+		clock.set_for_testing(1_000);
+		request(&mut scenario, &clock, LISTENER, SHORT);
+		request(&mut scenario, &clock, OTHER_LISTENER, OTHER); // request 1
+		remove(&mut scenario, &clock, OTHER);
+
+		claim(&mut scenario, &clock, LISTENER, 1);
+
+		clock.destroy_for_testing();
+		scenario.end();
+	}
+
+	// --- Track removal ---
+
+	#[test]
+	fun remove_track_refunds_its_queued_requests() {
+		let (mut scenario, mut clock) = setup();
+		clock.set_for_testing(1_000);
+		request(&mut scenario, &clock, LISTENER, SHORT); // request 0, playing
+		request(&mut scenario, &clock, LISTENER, OTHER); // request 1
+		request(&mut scenario, &clock, OTHER_LISTENER, OTHER); // request 2
+		request(&mut scenario, &clock, OTHER_LISTENER, SHORT); // request 3
+
+		clock.set_for_testing(2_000);
+		remove(&mut scenario, &clock, OTHER);
+
+		scenario.next_tx(OWNER);
+		{
+			let jukebox = scenario.take_shared<Jukebox>();
+			// --- The play going on is another track's: it carries on ---
+			assert!(jukebox.current_track() == option::some(SHORT), 0);
+			assert!(jukebox.current_started_at_ms() == 1_000, 1);
+			assert!(jukebox.queue_length() == 1, 2);
+			// --- Two refundable fees and the one still queued ---
+			assert!(jukebox.escrowed() == 3 * FEE, 3);
+			ts::return_shared(jukebox);
+		};
+
+		claim(&mut scenario, &clock, LISTENER, 1);
+		claim(&mut scenario, &clock, OTHER_LISTENER, 2);
+
+		scenario.next_tx(OWNER);
+		assert!(take_coin(&scenario, LISTENER) == FEE, 4);
+		assert!(take_coin(&scenario, OTHER_LISTENER) == FEE, 5);
+		{
+			let jukebox = scenario.take_shared<Jukebox>();
+			assert!(jukebox.escrowed() == FEE, 6);
+			ts::return_shared(jukebox);
+		};
+
+		clock.destroy_for_testing();
+		scenario.end();
+	}
+
+	#[test]
+	fun remove_track_ends_its_play_and_starts_the_next_now() {
+		let (mut scenario, mut clock) = setup();
+		clock.set_for_testing(1_000);
+		request(&mut scenario, &clock, LISTENER, SHORT);
+		request(&mut scenario, &clock, OTHER_LISTENER, OTHER);
+
+		clock.set_for_testing(2_000);
+		remove(&mut scenario, &clock, SHORT);
+
+		scenario.next_tx(OWNER);
+		{
+			let jukebox = scenario.take_shared<Jukebox>();
+			assert!(jukebox.current_track() == option::some(OTHER), 0);
+			assert!(jukebox.current_started_at_ms() == 2_000, 1);
+			ts::return_shared(jukebox);
+		};
+
+		clock.destroy_for_testing();
+		scenario.end();
+	}
+
+	#[test]
+	fun remove_track_keeps_plays_that_already_ended() {
+		let (mut scenario, mut clock) = setup();
+		clock.set_for_testing(1_000);
+		request(&mut scenario, &clock, LISTENER, SHORT); // ends at 61_000
+		request(&mut scenario, &clock, OTHER_LISTENER, OTHER);
+
+		// --- SHORT is over, nobody has called advance since ---
+		clock.set_for_testing(1_000 + TRACK_MS + 5_000);
+		remove(&mut scenario, &clock, SHORT);
+
+		scenario.next_tx(OWNER);
+		{
+			let jukebox = scenario.take_shared<Jukebox>();
+			// --- OTHER started when SHORT ended; removing SHORT does not restart it ---
+			assert!(jukebox.current_track() == option::some(OTHER), 0);
+			assert!(jukebox.current_started_at_ms() == 1_000 + TRACK_MS, 1);
+			ts::return_shared(jukebox);
+		};
+
+		clock.destroy_for_testing();
+		scenario.end();
+	}
+
+	// --- Revenue split ---
+
+	#[test]
+	fun settle_gives_rounding_leftovers_to_the_payout_address() {
+		let (mut scenario, mut clock) = setup();
+		scenario.next_tx(OWNER);
+		{
+			let mut jukebox = scenario.take_shared<Jukebox>();
+			let cap = scenario.take_from_sender<AdminCap>();
+			jukebox::set_fee(&cap, &mut jukebox, 1_001);
+			jukebox::set_split(&cap, &mut jukebox, 3_333, 3_333, option::some(CURATOR));
+			scenario.return_to_sender(cap);
+			ts::return_shared(jukebox);
+		};
+
+		clock.set_for_testing(1_000);
+		request(&mut scenario, &clock, LISTENER, SHORT);
+
+		// --- 33.33% of 1_001 is 333.6: both shares round down, the payout address keeps the rest ---
+		scenario.next_tx(OWNER);
+		assert!(take_coin(&scenario, ARTIST) == 333, 0);
+		assert!(take_coin(&scenario, CURATOR) == 333, 1);
+		assert!(take_coin(&scenario, OWNER) == 335, 2);
+
+		clock.destroy_for_testing();
+		scenario.end();
+	}
+
+	// --- Passes ---
+
+	fun buy_credits(scenario: &mut Scenario, buyer: address, credits: u64) {
+		scenario.next_tx(buyer);
+		let mut jukebox = scenario.take_shared<Jukebox>();
+		let payment = coin::mint_for_testing<SUI>(credits * jukebox.fee(), scenario.ctx());
+		jukebox.buy_credits(payment, credits, scenario.ctx());
+		ts::return_shared(jukebox);
+	}
+
+	fun request_with_pass(scenario: &mut Scenario, clock: &Clock, requester: address, track_id: u64) {
+		scenario.next_tx(requester);
+		let mut jukebox = scenario.take_shared<Jukebox>();
+		let mut pass = scenario.take_from_sender<Pass>();
+		jukebox.change_track_with_pass(&mut pass, track_id, clock, scenario.ctx());
+		scenario.return_to_sender(pass);
+		ts::return_shared(jukebox);
+	}
+
+	fun refund_pass(scenario: &mut Scenario, owner: address) {
+		scenario.next_tx(owner);
+		let mut jukebox = scenario.take_shared<Jukebox>();
+		let pass = scenario.take_from_sender<Pass>();
+		jukebox.refund_credits(pass, scenario.ctx());
+		ts::return_shared(jukebox);
+	}
+
+	#[test]
+	fun refund_credits_returns_unused_credits() {
+		let (mut scenario, mut clock) = setup();
+		clock.set_for_testing(1_000);
+		buy_credits(&mut scenario, LISTENER, 3);
+		request_with_pass(&mut scenario, &clock, LISTENER, SHORT);
+		refund_pass(&mut scenario, LISTENER);
+
+		scenario.next_tx(LISTENER);
+		assert!(take_coin(&scenario, LISTENER) == 2 * FEE, 0);
+		assert!(!ts::has_most_recent_for_address<Pass>(LISTENER), 1);
+		{
+			// --- The credit that played was paid out, the other two came back ---
+			let jukebox = scenario.take_shared<Jukebox>();
+			assert!(jukebox.escrowed() == 0, 2);
+			ts::return_shared(jukebox);
+		};
+
+		clock.destroy_for_testing();
+		scenario.end();
+	}
+
+	#[test]
+	fun refund_credits_burns_a_used_up_pass() {
+		let (mut scenario, mut clock) = setup();
+		clock.set_for_testing(1_000);
+		buy_credits(&mut scenario, LISTENER, 1);
+		request_with_pass(&mut scenario, &clock, LISTENER, SHORT);
+		refund_pass(&mut scenario, LISTENER);
+
+		scenario.next_tx(LISTENER);
+		assert!(!ts::has_most_recent_for_address<Pass>(LISTENER), 0);
+		assert!(!ts::has_most_recent_for_address<Coin<SUI>>(LISTENER), 1);
+
+		clock.destroy_for_testing();
+		scenario.end();
+	}
+
+	#[test, expected_failure(abort_code = jukebox::E_NO_CREDITS)]
+	fun refund_credits_refuses_unlimited_passes() {
+		let (mut scenario, mut clock) = setup();
+		scenario.next_tx(OWNER);
+		{
+			let mut jukebox = scenario.take_shared<Jukebox>();
+			let cap = scenario.take_from_sender<AdminCap>();
+			jukebox::set_pass_policy(&cap, &mut jukebox, FEE, 3_600_000, 0);
+			scenario.return_to_sender(cap);
+			ts::return_shared(jukebox);
+		};
+
+		clock.set_for_testing(1_000);
+		scenario.next_tx(LISTENER);
+		{
+			let mut jukebox = scenario.take_shared<Jukebox>();
+			let payment = coin::mint_for_testing<SUI>(FEE, scenario.ctx());
+			jukebox.buy_pass(payment, &clock, scenario.ctx());
+			ts::return_shared(jukebox);
+		};
+		refund_pass(&mut scenario, LISTENER);
 
-#[test, expected_failure(abort_code = ::jukebox::jukebox_tests::ENotImplemented)]
-fun test_jukebox_fail() {
-    abort ENotImplemented
+		clock.destroy_for_testing();
+		scenario.end();
+	}
 }
-*/